@@ -1,17 +1,219 @@
 #!/usr/bin/env node
 
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { createWriteStream, readFileSync } from 'fs';
+import { appendFile, readFile, rename, stat, unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ReadableStream } from 'stream/web';
+import { parse as parseYaml } from 'yaml';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 
-let baseUrl = 'http://localhost:8080'; // Base URL from Swagger spec or default
+const authConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('none') }),
+  z.object({ type: z.literal('basic'), username: z.string(), password: z.string() }),
+  z.object({ type: z.literal('bearer'), token: z.string() }),
+  z.object({ type: z.literal('login'), username: z.string(), password: z.string() })
+]);
+
+const instanceConfigSchema = z.object({
+  url: z.string(),
+  auth: authConfigSchema.optional(),
+  defaultCluster: z.string().optional()
+});
+
+const configSchema = z.object({
+  url: z.string().optional(),
+  auth: authConfigSchema.optional(),
+  defaultCluster: z.string().optional(),
+  defaultInstance: z.string().optional(),
+  instances: z.record(instanceConfigSchema).optional()
+});
+
+type AuthConfig = z.infer<typeof authConfigSchema>;
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+interface AkhqInstance {
+  name: string;
+  url: string;
+  auth: AuthConfig;
+  defaultCluster?: string;
+  sessionCookie?: string; // JWT cookie from AKHQ's form login
+  username?: string | null; // Authenticated user reported by /api/me, looked up once for the audit log
+}
+
+// AKHQ_* environment variables configure the instance named "default"
+const DEFAULT_INSTANCE = 'default';
+
+// Builds the instance registry from the JSON config file named by AKHQ_CONFIG and the AKHQ_* environment variables
+function loadInstances(): Map<string, AkhqInstance> {
+  const configPath = process.env.AKHQ_CONFIG;
+  const config = configPath ? configSchema.parse(JSON.parse(readFileSync(configPath, 'utf8'))) : {};
+  const instances = new Map<string, AkhqInstance>();
+  for (const [name, instanceConfig] of Object.entries(config.instances ?? {})) {
+    instances.set(name, { name, ...instanceConfig, auth: instanceConfig.auth ?? { type: 'none' } });
+  }
+  const url = process.env.AKHQ_URL ?? config.url;
+  // Credentials from the environment belong to the default instance only, they are never sent to the instances of the file
+  if (!url && instances.size > 0 && (process.env.AKHQ_USERNAME || process.env.AKHQ_TOKEN || process.env.AKHQ_AUTH_TYPE)) {
+    console.error('AKHQ_USERNAME, AKHQ_TOKEN and AKHQ_AUTH_TYPE only apply to the default instance, which is not registered without AKHQ_URL or a top-level url in AKHQ_CONFIG. Set auth on the instances in the file instead.');
+  }
+  if (url || instances.size === 0) {
+    instances.set(DEFAULT_INSTANCE, {
+      name: DEFAULT_INSTANCE,
+      url: url ?? 'http://localhost:8080',
+      auth: authFromEnv() ?? config.auth ?? { type: 'none' },
+      defaultCluster: process.env.AKHQ_CLUSTER ?? config.defaultCluster
+    });
+  }
+  const active = process.env.AKHQ_INSTANCE ?? config.defaultInstance;
+  if (active && !instances.has(active)) {
+    throw new Error(`Default AKHQ instance ${active} is not configured`);
+  }
+  // An explicitly set AKHQ_URL or top-level url is used by default over the first instance of the file
+  activeInstanceName = active ?? (url ? DEFAULT_INSTANCE : instances.keys().next().value!);
+  return instances;
+}
+
+// AKHQ_AUTH_TYPE defaults to bearer when AKHQ_TOKEN is set and to form login when AKHQ_USERNAME is set
+function authFromEnv(): AuthConfig | undefined {
+  const { AKHQ_AUTH_TYPE, AKHQ_USERNAME, AKHQ_PASSWORD, AKHQ_TOKEN } = process.env;
+  const type = AKHQ_AUTH_TYPE ?? (AKHQ_TOKEN ? 'bearer' : AKHQ_USERNAME ? 'login' : undefined);
+  if (type === undefined) {
+    return undefined;
+  }
+  return authConfigSchema.parse({ type, username: AKHQ_USERNAME, password: AKHQ_PASSWORD, token: AKHQ_TOKEN });
+}
+
+let activeInstanceName: string; // Instance used by tool calls without an explicit instance argument
+const instances = loadInstances();
+
+// Returns the value of a --name=value or --name value command line option, or true for a bare --name flag
+function cliOption(name: string): string | true | undefined {
+  const args = process.argv.slice(2);
+  const index = args.findIndex(arg => arg === `--${name}` || arg.startsWith(`--${name}=`));
+  if (index === -1) {
+    return undefined;
+  }
+  const arg = args[index];
+  if (arg.includes('=')) {
+    return arg.slice(arg.indexOf('=') + 1);
+  }
+  const next = args[index + 1];
+  return next !== undefined && !next.startsWith('--') ? next : true;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+}
+
+function toolPatterns(option: string, envVar: string, defaultPatterns = ''): RegExp[] {
+  const value = cliOption(option);
+  const patterns = typeof value === 'string' ? value : process.env[envVar] ?? defaultPatterns;
+  return patterns.split(',').map(pattern => pattern.trim()).filter(Boolean).map(globToRegExp);
+}
+
+const readOnlyOption = cliOption('read-only');
+const readOnly = readOnlyOption === undefined ? process.env.AKHQ_READ_ONLY === 'true' : readOnlyOption !== 'false';
+const allowedTools = toolPatterns('allow-tools', 'AKHQ_ALLOW_TOOLS');
+const deniedTools = toolPatterns('deny-tools', 'AKHQ_DENY_TOOLS');
+const confirmedTools = toolPatterns('confirm-tools', 'AKHQ_CONFIRM_TOOLS', '*');
+const unconfirmedTools = toolPatterns('skip-confirm-tools', 'AKHQ_SKIP_CONFIRM_TOOLS');
+const confirmationTtlMs = Number(process.env.AKHQ_CONFIRM_TTL_SECONDS ?? 300) * 1000;
+const auditLogOption = cliOption('audit-log');
+const auditLogPath = typeof auditLogOption === 'string' ? auditLogOption : process.env.AKHQ_AUDIT_LOG;
+
+// GET endpoints that change state and PUT endpoints that only read
+const MUTATING_GET_TOOLS = ['get_connect_pause', 'get_connect_restart', 'get_connect_resume', 'get_connect_tasks_restart'];
+const READ_ONLY_PUT_TOOLS = ['put_connect_plugins_validate', 'put_ksqldb_queries_pull'];
+// Workflow tools that change state through the endpoints above
+const MUTATING_WORKFLOW_TOOLS = ['reset_group_offsets', 'apply_topics', 'produce_messages', 'generate_test_data', 'replay_messages'];
+
+function isMutatingTool(name: string): boolean {
+  if (MUTATING_GET_TOOLS.includes(name) || MUTATING_WORKFLOW_TOOLS.includes(name)) {
+    return true;
+  }
+  return /^(post|put|delete)_/.test(name) && !READ_ONLY_PUT_TOOLS.includes(name);
+}
+
+// Read-only mode drops mutating tools, the deny list wins over the allow list and an empty allow list allows all tools
+function isToolEnabled(name: string): boolean {
+  if (readOnly && isMutatingTool(name)) {
+    return false;
+  }
+  if (deniedTools.some(pattern => pattern.test(name))) {
+    return false;
+  }
+  return allowedTools.length === 0 || allowedTools.some(pattern => pattern.test(name));
+}
+
+// Mutating tools matching the confirm list and not the skip list first return a preview and a confirmation token
+function requiresConfirmation(name: string): boolean {
+  return isMutatingTool(name)
+    && confirmedTools.some(pattern => pattern.test(name))
+    && !unconfirmedTools.some(pattern => pattern.test(name));
+}
+
+interface RequestContext {
+  instance: AkhqInstance;
+  requests: { method: string; endpoint: string; status: number | null }[]; // AKHQ requests made by the tool call, for the audit log
+  executed: boolean; // Whether the tool handler ran, as opposed to returning a confirmation preview
+}
+
+// Tool call currently being handled
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// An unknown name is a validation error of the argument it came from
+function getInstance(name: string, parameter = 'instance'): AkhqInstance {
+  const instance = instances.get(name);
+  if (!instance) {
+    throw new z.ZodError([{ code: 'custom', path: [parameter], message: `Unknown AKHQ instance: ${name}. Registered instances: ${[...instances.keys()].join(', ')}` }]);
+  }
+  return instance;
+}
+
+function currentInstance(): AkhqInstance {
+  return requestContext.getStore()?.instance ?? getInstance(activeInstanceName);
+}
+
+// Instance details that are safe to return to the MCP client
+function describeInstances() {
+  return [...instances.values()].map(instance => ({
+    name: instance.name,
+    url: instance.url,
+    defaultCluster: instance.defaultCluster ?? null,
+    authType: instance.auth.type,
+    active: instance.name === activeInstanceName
+  }));
+}
 
 const server = new McpServer({
   name: 'AKHQ',
   version: '1.0.0'
 });
 
-function parameterizeEndpoint(endpoint: string, parameters: Record<string, any>): string {
+// Replaces any configured secret that ends up in text returned to the MCP client
+function redactSecrets(text: string): string {
+  const secrets = [...instances.values()].flatMap(({ auth, sessionCookie }) => [
+    'password' in auth ? auth.password : undefined,
+    'token' in auth ? auth.token : undefined,
+    sessionCookie
+  ]);
+  return secrets
+    .filter((secret): secret is string => !!secret)
+    .reduce((result, secret) => result.split(secret).join('***'), text);
+}
+
+// Builds the request URL of an endpoint. Path parameters are the {placeholders} of the endpoint, query lists the
+// query parameters the caller declares; any other parameter is a bug in the tool and is refused rather than sent
+function parameterizeEndpoint(endpoint: string, parameters: Record<string, any>, query: string[] = []): string {
   // Handle path parameters
   let path = endpoint.replace(/\{([^}]+)\}/g, (match, paramName) => {
     const value = parameters[paramName];
@@ -26,9 +228,15 @@ function parameterizeEndpoint(endpoint: string, parameters: Record<string, any>)
     .filter(([key]) => !endpoint.includes(`{${key}}`)) // Exclude path parameters
     .filter(([_, value]) => value !== undefined && value !== null) // Exclude null/undefined values
     .map(([key, value]) => {
+      if (!query.includes(key)) {
+        throw new Error(`Parameter ${key} is not a path or query parameter of ${endpoint}`);
+      }
       if (Array.isArray(value)) {
         return value.map(v => `${encodeURIComponent(key)}=${encodeURIComponent(v)}`).join('&');
       }
+      if (typeof value === 'object') {
+        throw new Error(`Parameter ${key} is not a path or query parameter of ${endpoint}`);
+      }
       return `${encodeURIComponent(key)}=${encodeURIComponent(value)}`;
     })
     .join('&');
@@ -40,46 +248,784 @@ function parameterizeEndpoint(endpoint: string, parameters: Record<string, any>)
   return path;
 }
 
+// HTTP failure of an AKHQ request, reported to the MCP client as a structured error result
+class AkhqApiError extends Error {
+  constructor(
+    readonly status: number | null,
+    readonly method: string,
+    readonly endpoint: string,
+    readonly akhqMessage: string,
+    readonly hint: string | undefined,
+    readonly instance: string
+  ) {
+    super(`AKHQ request ${method} ${endpoint} failed${status === null ? '' : ` with HTTP status ${status}`}: ${akhqMessage}`);
+  }
+
+  toJSON() {
+    return {
+      error: 'AKHQ request failed',
+      status: this.status,
+      method: this.method,
+      endpoint: this.endpoint,
+      instance: this.instance,
+      message: this.akhqMessage,
+      hint: this.hint
+    };
+  }
+}
+
+// Parses a response body as JSON when possible, returns undefined for an empty body and the raw text otherwise
+async function readBody(response: Response): Promise<any> {
+  const text = await response.text();
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function errorHint(status: number, message: string, instance: AkhqInstance): string | undefined {
+  if (/cluster/i.test(message) && /not found|unable to find|doesn't exist|does not exist/i.test(message)) {
+    return 'The cluster does not exist on this AKHQ instance. Use get_cluster to list the available clusters.';
+  }
+  switch (status) {
+    case 400:
+      return 'AKHQ rejected the request parameters or body.';
+    case 401:
+      return `Not authenticated. Check the credentials configured for AKHQ instance ${instance.name}.`;
+    case 403:
+      return 'The authenticated user does not have the AKHQ role required for this action. Use get_me to see its roles.';
+    case 404:
+      return 'The resource was not found. Check the cluster and resource names, and that this AKHQ version supports the endpoint.';
+    case 409:
+      return 'The resource already exists or is in a conflicting state.';
+    default:
+      return status >= 500 ? 'AKHQ or Kafka failed to process the request. The message usually contains the underlying Kafka error.' : undefined;
+  }
+}
+
+async function toAkhqApiError(response: Response, method: string, endpoint: string, instance: AkhqInstance): Promise<AkhqApiError> {
+  const body = await readBody(response).catch(() => undefined);
+  let message: string;
+  if (body && typeof body === 'object') {
+    // Micronaut JSON errors carry the detail in message or in _embedded.errors
+    const embedded = (body._embedded?.errors ?? []).map((error: any) => error.message).filter(Boolean);
+    message = [body.message, ...embedded].filter(Boolean).join(': ') || JSON.stringify(body);
+  } else if (typeof body === 'string') {
+    message = body.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 500);
+  } else {
+    message = response.statusText || 'Empty response';
+  }
+  return new AkhqApiError(response.status, method, endpoint, message, errorHint(response.status, message, instance), instance.name);
+}
+
+function errorResult(error: AkhqApiError) {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: redactSecrets(JSON.stringify(error))
+      }
+    ]
+  };
+}
+
+// Logs in through AKHQ's /login form and returns the JWT cookie it sets on success
+async function login(instance: AkhqInstance, username: string, password: string): Promise<string> {
+  const response = await fetch(`${instance.url}/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ username, password }).toString(),
+    redirect: 'manual'
+  });
+  const cookie = response.headers.getSetCookie()
+    .map(header => header.split(';')[0])
+    .find(pair => pair.startsWith('JWT=') && pair.length > 'JWT='.length);
+  if (!cookie) {
+    throw new AkhqApiError(
+      response.status,
+      'POST',
+      '/login',
+      'Login failed',
+      `Check the username and password configured for AKHQ instance ${instance.name}.`,
+      instance.name
+    );
+  }
+  return cookie;
+}
+
+async function authHeaders(instance: AkhqInstance): Promise<Record<string, string>> {
+  const { auth } = instance;
+  switch (auth.type) {
+    case 'basic':
+      return { Authorization: `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}` };
+    case 'bearer':
+      return { Authorization: `Bearer ${auth.token}` };
+    case 'login':
+      instance.sessionCookie ??= await login(instance, auth.username, auth.password);
+      return { Cookie: instance.sessionCookie };
+    default:
+      return {};
+  }
+}
+
+// Sends an authenticated request, logging in again once if the AKHQ session has expired
+async function akhqFetch(endpoint: string, init: RequestInit = {}, instance = currentInstance()): Promise<Response> {
+  const send = async () => {
+    const headers = { ...init.headers as Record<string, string>, ...await authHeaders(instance) };
+    const requests = requestContext.getStore()?.requests;
+    try {
+      const response = await fetch(`${instance.url}${endpoint}`, { ...init, headers });
+      requests?.push({ method: init.method ?? 'GET', endpoint, status: response.status });
+      return response;
+    } catch (error) {
+      if (init.signal?.aborted) {
+        throw error;
+      }
+      requests?.push({ method: init.method ?? 'GET', endpoint, status: null });
+      // fetch reports network failures as "fetch failed" with the reason, e.g. ECONNREFUSED, in the cause
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : error instanceof Error ? error.message : String(error);
+      throw new AkhqApiError(
+        null,
+        init.method ?? 'GET',
+        endpoint,
+        `Could not reach ${instance.url}: ${cause}`,
+        'Check that AKHQ is running and that the instance URL is correct.',
+        instance.name
+      );
+    }
+  };
+  const response = await send();
+  if (response.status === 401 && instance.auth.type === 'login') {
+    instance.sessionCookie = undefined;
+    return send();
+  }
+  return response;
+}
+
 async function callApi(endpoint: string, method: string, body?: any, contentType?: string) {
   const headers: Record<string, string> = {};
   if (contentType) {
     headers['Content-Type'] = contentType;
   }
-  const response = await fetch(`${baseUrl}${endpoint}`, {
+  const instance = currentInstance();
+  const response = await akhqFetch(endpoint, {
     method,
     headers,
     body: body ? JSON.stringify(body) : undefined
+  }, instance);
+  if (!response.ok) {
+    throw await toAkhqApiError(response, method, endpoint, instance);
+  }
+  const data = await readBody(response);
+  return {
+    content: [
+      {
+        type: 'text',
+        text: redactSecrets(data === undefined ? JSON.stringify({ success: true, status: response.status }) : typeof data === 'string' ? data : JSON.stringify(data))
+      }
+    ]
+  };
+}
+
+// Fetches an AKHQ endpoint and parses its JSON response
+async function getJson(endpoint: string, instance = currentInstance()): Promise<any> {
+  const response = await akhqFetch(endpoint, {}, instance);
+  if (!response.ok) {
+    throw await toAkhqApiError(response, 'GET', endpoint, instance);
+  }
+  return readBody(response);
+}
+
+// Follows the pages of an AKHQ paged listing from the requested page and merges their results
+async function fetchAllPages(endpoint: string, parameters: Record<string, any>, query: string[], maxPages: number) {
+  const results: any[] = [];
+  let page = parameters.page ?? 1;
+  let pagesFetched = 0;
+  let pageCount = page;
+  let total: number | undefined;
+  while (page <= pageCount && pagesFetched < maxPages) {
+    const data = await getJson(parameterizeEndpoint(endpoint, { ...parameters, page }, [...query, 'page']));
+    results.push(...data.results ?? []);
+    pageCount = Math.max(data.page ?? page, data.after ? page + 1 : page);
+    total = data.total ?? total;
+    pagesFetched++;
+    page++;
+  }
+  return {
+    results,
+    total: total ?? results.length,
+    pageCount,
+    pagesFetched,
+    truncated: page <= pageCount
+  };
+}
+
+// Formats rows as a markdown table, the compact form used by the analysis tools
+function formatTable(headers: string[], rows: any[][]): string {
+  const cell = (value: any) => value === null || value === undefined ? '-' : String(value);
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+  ].join('\n');
+}
+
+interface SseEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+// Parses a text/event-stream response into events as they arrive
+async function* readSseEvents(response: Response): AsyncGenerator<SseEvent> {
+  if (!response.body) {
+    return;
+  }
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += value;
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+      for (const block of blocks) {
+        const event = parseSseBlock(block);
+        if (event) {
+          yield event;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  const event = parseSseBlock(buffer);
+  if (event) {
+    yield event;
+  }
+}
+
+function parseSseBlock(block: string): SseEvent | undefined {
+  const event: SseEvent = { event: 'message', data: '' };
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) {
+      continue;
+    }
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') {
+      event.event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    } else if (field === 'id') {
+      event.id = value;
+    }
+  }
+  if (data.length === 0) {
+    return undefined;
+  }
+  event.data = data.join('\n');
+  return event;
+}
+
+// Sends an MCP progress notification when the client asked for progress on this tool call
+async function reportProgress(extra: ToolExtra, progress: number, total?: number) {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return;
+  }
+  await extra.sendNotification({
+    method: 'notifications/progress',
+    params: { progressToken, progress, total }
+  });
+}
+
+// Feeds the events of an SSE endpoint to onEvent until it returns a stop reason, the stream ends or maxDurationMs passes
+async function consumeSse(
+  endpoint: string,
+  maxDurationMs: number,
+  extra: ToolExtra,
+  onEvent: (event: SseEvent) => Promise<string | undefined>
+): Promise<string> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const timer = setTimeout(abort, maxDurationMs);
+  extra.signal.addEventListener('abort', abort);
+  try {
+    const instance = currentInstance();
+    const response = await akhqFetch(endpoint, {
+      headers: { Accept: 'text/event-stream' },
+      signal: controller.signal
+    }, instance);
+    if (!response.ok) {
+      throw await toAkhqApiError(response, 'GET', endpoint, instance);
+    }
+    for await (const event of readSseEvents(response)) {
+      const stopReason = await onEvent(event);
+      if (stopReason) {
+        return stopReason;
+      }
+    }
+    return 'streamEnded';
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      throw error;
+    }
+    return extra.signal.aborted ? 'cancelled' : 'maxDuration';
+  } finally {
+    clearTimeout(timer);
+    extra.signal.removeEventListener('abort', abort);
+    controller.abort();
+  }
+}
+
+interface StreamLimits {
+  maxRecords: number;
+  maxDurationMs: number;
+}
+
+interface SkippedEvents {
+  count: number;
+  samples: string[]; // Data of the first skipped events, shortened
+}
+
+// AKHQ sends JSON in every data line. An event that is not JSON, e.g. an error page of a proxy, is counted and skipped
+// instead of ending the stream.
+function parseSseData(event: SseEvent, skipped: SkippedEvents): any {
+  try {
+    return JSON.parse(event.data);
+  } catch {
+    skipped.count++;
+    if (skipped.samples.length < 5) {
+      skipped.samples.push(truncateText(event.data, 200));
+    }
+    return undefined;
+  }
+}
+
+// Reads AKHQ's tail stream until enough records arrived, the time is up or a record contains the match text.
+// Whole batches are kept so that the returned after cursors never skip a record.
+async function tailTopics(endpoint: string, options: StreamLimits & { match?: string }, extra: ToolExtra) {
+  const started = Date.now();
+  const records: any[] = [];
+  let after: string[] = [];
+  const skippedEvents: SkippedEvents = { count: 0, samples: [] };
+  const stopReason = await consumeSse(endpoint, options.maxDurationMs, extra, async event => {
+    const tail = parseSseData(event, skippedEvents);
+    if (tail === undefined) {
+      return undefined;
+    }
+    after = tail.offsets ?? after;
+    const batch: any[] = tail.records ?? [];
+    records.push(...batch);
+    if (batch.length > 0) {
+      await reportProgress(extra, records.length, options.maxRecords);
+    }
+    if (options.match && batch.some(record => JSON.stringify([record.key, record.value]).includes(options.match!))) {
+      return 'match';
+    }
+    return records.length >= options.maxRecords ? 'maxRecords' : undefined;
+  });
+  return { records, after, stopReason, durationMs: Date.now() - started, ...skippedEvents.count ? { skippedEvents } : {} };
+}
+
+// Aggregates the progress events of AKHQ's topic search into one result, reporting the scanned percentage as progress
+async function searchTopicData(endpoint: string, options: StreamLimits, extra: ToolExtra) {
+  const started = Date.now();
+  const records: any[] = [];
+  let after: string | null = null;
+  let percent = 0;
+  const skippedEvents: SkippedEvents = { count: 0, samples: [] };
+  const stopReason = await consumeSse(endpoint, options.maxDurationMs, extra, async event => {
+    const search = parseSseData(event, skippedEvents);
+    if (search === undefined) {
+      return event.event === 'searchEnd' ? 'searchEnd' : undefined;
+    }
+    after = search.after ?? after;
+    percent = search.percent ?? percent;
+    records.push(...search.records ?? []);
+    await reportProgress(extra, percent, 100);
+    if (event.event === 'searchEnd') {
+      return 'searchEnd';
+    }
+    return records.length >= options.maxRecords ? 'maxRecords' : undefined;
   });
-  const data = await response.json();
+  return { records, after, percent, stopReason, durationMs: Date.now() - started, ...skippedEvents.count ? { skippedEvents } : {} };
+}
+
+// Streams a file response to disk so that large exports never pass through the model context. The response is written
+// to a temporary file next to outputPath and renamed at the end, so a failed download leaves no partial file behind.
+async function downloadToFile(endpoint: string, outputPath: string, overwrite = false) {
+  const exists = await stat(outputPath).then(() => true, () => false);
+  if (exists && !overwrite) {
+    throw new z.ZodError([{ code: 'custom', path: ['outputPath'], message: `${outputPath} already exists, pass overwrite: true to replace it` }]);
+  }
+  const instance = currentInstance();
+  const response = await akhqFetch(endpoint, {}, instance);
+  if (!response.ok || !response.body) {
+    throw await toAkhqApiError(response, 'GET', endpoint, instance);
+  }
+  const partialPath = `${outputPath}.${randomBytes(4).toString('hex')}.part`;
+  try {
+    await pipeline(Readable.fromWeb(response.body as ReadableStream<Uint8Array>), createWriteStream(partialPath, { flags: 'wx' }));
+    await rename(partialPath, outputPath);
+  } catch (error) {
+    await unlink(partialPath).catch(() => undefined);
+    throw error;
+  }
+  return {
+    path: outputPath,
+    bytes: (await stat(outputPath)).size,
+    contentType: response.headers.get('content-type')
+  };
+}
+
+// Confirmation tokens handed out with previews, each valid once for the exact tool call it was issued for
+const pendingConfirmations = new Map<string, { fingerprint: string; state?: string; pinned?: any; expiresAt: number }>();
+
+async function topicSummary(cluster: string, topicName: string) {
+  const topic = await getJson(parameterizeEndpoint('/api/{cluster}/topic/{topicName}', { cluster, topicName }));
+  const groups = await getJson(parameterizeEndpoint('/api/{cluster}/topic/{topicName}/groups', { cluster, topicName }));
+  const partitions: any[] = topic.partitions ?? [];
+  return {
+    name: topicName,
+    partitions: partitions.length,
+    replication: partitions[0]?.replicas?.length ?? null,
+    messages: partitions.reduce((sum, partition) => sum + (partition.lastOffset ?? 0) - (partition.firstOffset ?? 0), 0),
+    consumerGroups: (groups ?? []).map((group: any) => group.id)
+  };
+}
+
+async function groupSummary(cluster: string, groupName: string) {
+  const group = await getJson(parameterizeEndpoint('/api/{cluster}/group/{groupName}', { cluster, groupName }));
   return {
+    name: groupName,
+    state: group.state ?? null,
+    members: (group.members ?? []).length,
+    topics: group.topics ?? [],
+    offsets: (group.offsets ?? []).map(({ topic, partition, offset, offsetLag }: any) => ({ topic, partition, offset, lag: offsetLag }))
+  };
+}
+
+// Describes what a mutating call is about to change from the resources named in its parameters
+async function previewMutation(params: Record<string, any>) {
+  const { cluster } = params;
+  const lookups: Record<string, () => Promise<any>> = {};
+  if (cluster && params.topicName) {
+    lookups.topic = () => topicSummary(cluster, params.topicName);
+  }
+  if (params.fromCluster && params.fromTopicName) {
+    lookups.sourceTopic = () => topicSummary(params.fromCluster, params.fromTopicName);
+  }
+  if (params.toCluster && params.toTopicName) {
+    lookups.targetTopic = () => topicSummary(params.toCluster, params.toTopicName);
+  }
+  if (cluster && params.groupName) {
+    lookups.group = () => groupSummary(cluster, params.groupName);
+  }
+  if (cluster && params.subject) {
+    lookups.schemaVersions = () => getJson(parameterizeEndpoint('/api/{cluster}/schema/{subject}/version', { cluster, subject: params.subject }));
+  }
+  if (cluster && params.connectId && params.name) {
+    lookups.connector = () => getJson(parameterizeEndpoint('/api/{cluster}/connect/{connectId}/{name}', { cluster, connectId: params.connectId, name: params.name }));
+  }
+  if (cluster && params.nodeId !== undefined) {
+    lookups.node = () => getJson(parameterizeEndpoint('/api/{cluster}/node/{nodeId}', { cluster, nodeId: params.nodeId }));
+  }
+  const preview: Record<string, any> = {};
+  for (const [key, lookup] of Object.entries(lookups)) {
+    try {
+      preview[key] = await lookup();
+    } catch (error) {
+      // A missing resource is part of the preview, e.g. when creating it
+      if (!(error instanceof AkhqApiError)) {
+        throw error;
+      }
+      preview[key] = { error: error.akhqMessage, status: error.status };
+    }
+  }
+  return preview;
+}
+
+// JSON with sorted object keys, so that equal arguments give equal fingerprints regardless of their order
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().filter(key => value[key] !== undefined).map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// Returns the preview to send instead of running the tool as result, or what the preview pinned when the call carries a valid token.
+// state is what the change is computed from beyond the arguments, e.g. a desired-state file and the plan made from it;
+// a token is refused when it has changed since the preview, as the change would no longer be the one previewed.
+// A preview that reports the change as blocked, e.g. by active consumers, gets no token. A preview can pin choices the
+// arguments leave open, e.g. a random seed, which are kept with the token and handed to the tool when it is redeemed.
+async function checkConfirmation(
+  name: string,
+  params: Record<string, any>,
+  token: string | undefined,
+  preview: (params: any) => Promise<any> = previewMutation,
+  state?: (params: any) => Promise<any>
+): Promise<{ result?: any; pinned?: any }> {
+  const fingerprint = canonicalJson({ name, instance: currentInstance().name, params });
+  const stateFingerprint = state ? canonicalJson(await state(params)) : undefined;
+  const now = Date.now();
+  for (const [pendingToken, pending] of pendingConfirmations) {
+    if (pending.expiresAt < now) {
+      pendingConfirmations.delete(pendingToken);
+    }
+  }
+  if (token !== undefined) {
+    const pending = pendingConfirmations.get(token);
+    if (pending?.fingerprint !== fingerprint) {
+      return { result: {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Invalid confirmation token',
+              hint: 'The token is unknown, expired, already used or was issued for different arguments. Call the tool again without confirmationToken for a new preview.'
+            })
+          }
+        ]
+      } };
+    }
+    pendingConfirmations.delete(token);
+    if (pending.state !== stateFingerprint) {
+      return { result: {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Changed since the preview',
+              hint: 'What the tool would change now differs from the preview the token was issued for, e.g. because an input file or the cluster changed. Nothing has been changed. Call the tool again without confirmationToken for a new preview.'
+            })
+          }
+        ]
+      } };
+    }
+    return { pinned: pending.pinned };
+  }
+  const { pinned, ...previewed } = await preview(params) ?? {};
+  if (previewed.blocked) {
+    return { result: {
+      isError: true,
+      content: [
+        {
+          type: 'text',
+          text: redactSecrets(JSON.stringify({
+            confirmationRequired: false,
+            tool: name,
+            instance: currentInstance().name,
+            params,
+            preview: previewed,
+            hint: 'The change is blocked, so no confirmation token was issued. Resolve what blocks it and call the tool again for a new preview.'
+          }))
+        }
+      ]
+    } };
+  }
+  const confirmationToken = randomBytes(6).toString('hex');
+  pendingConfirmations.set(confirmationToken, { fingerprint, state: stateFingerprint, pinned, expiresAt: now + confirmationTtlMs });
+  return { result: {
     content: [
       {
         type: 'text',
-        text: JSON.stringify(data)
+        text: redactSecrets(JSON.stringify({
+          confirmationRequired: true,
+          tool: name,
+          instance: currentInstance().name,
+          params,
+          preview: previewed,
+          confirmationToken,
+          expiresAt: new Date(now + confirmationTtlMs).toISOString(),
+          hint: 'Nothing has been changed yet. Review the preview and call the tool again with the same arguments and this confirmationToken to apply it.'
+        }))
       }
     ]
+  } };
+}
+
+// Masks parameters that look like secrets and truncates large values such as message payloads
+function sanitizeForAudit(value: any, key = ''): any {
+  if (/password|secret|token|credential/i.test(key)) {
+    return '***';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => sanitizeForAudit(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([entryKey, entryValue]) => [entryKey, sanitizeForAudit(entryValue, entryKey)]));
+  }
+  if (typeof value === 'string') {
+    const redacted = redactSecrets(value);
+    return redacted.length > 1000 ? `${redacted.slice(0, 1000)}...` : redacted;
+  }
+  return value;
+}
+
+async function authenticatedUser(instance: AkhqInstance): Promise<string | null> {
+  if (instance.username === undefined) {
+    try {
+      const me = await getJson('/api/me', instance);
+      instance.username = me?.username ?? null;
+    } catch (error) {
+      return null;
+    }
+  }
+  return instance.username ?? null;
+}
+
+// Appends a JSON line for tool calls that sent a non-GET request or otherwise changed state in Kafka
+async function auditToolCall(name: string, params: Record<string, any>, context: RequestContext, error?: string) {
+  const changes = context.requests.filter(request => request.method !== 'GET' || MUTATING_GET_TOOLS.includes(name));
+  if (!auditLogPath || !context.executed || changes.length === 0) {
+    return;
+  }
+  const record = {
+    timestamp: new Date().toISOString(),
+    tool: name,
+    params: sanitizeForAudit(params),
+    instance: context.instance.name,
+    cluster: params.cluster ?? params.toCluster ?? null,
+    status: changes[changes.length - 1].status,
+    requests: changes,
+    user: await authenticatedUser(context.instance),
+    error
   };
+  try {
+    await appendFile(auditLogPath, `${JSON.stringify(record)}\n`);
+  } catch (appendError) {
+    console.error(`Failed to write audit log ${auditLogPath}:`, appendError);
+  }
 }
 
-function registerTool(name: string, description: string, parameters: any, handler: (params: any) => Promise<any>) {
+// Registers enabled tools with the optional instance argument and lets cluster fall back to the instance's default cluster
+// Mutating tools can pass their own preview for the confirmation step instead of the generic resource summary.
+// The handler of a confirmed call receives what its preview pinned.
+function registerTool(
+  name: string,
+  description: string,
+  parameters: any,
+  handler: (params: any, extra: ToolExtra, pinned?: any) => Promise<any>,
+  preview?: (params: any) => Promise<any>,
+  confirmationState?: (params: any) => Promise<any>
+) {
+  if (!isToolEnabled(name)) {
+    return;
+  }
+  const shape = {
+    ...parameters,
+    instance: z.string().optional().describe('AKHQ instance to use, defaults to the active instance (see list_instances)')
+  };
+  if (shape.cluster) {
+    shape.cluster = shape.cluster.optional().describe('The cluster name, defaults to the default cluster of the instance');
+  }
+  const confirm = requiresConfirmation(name);
+  if (confirm) {
+    shape.confirmationToken = z.string().optional().describe('Token from the preview returned by a first call without it; the change is only applied when it is passed');
+  }
   try {
-    server.tool(name, description, parameters, handler);
+    server.tool(name, description, shape, async (params: any, extra: ToolExtra) => {
+      const { instance: instanceName, confirmationToken, ...toolParams } = params;
+      const context: RequestContext = { instance: getInstance(activeInstanceName), requests: [], executed: false };
+      let resolvedParams = toolParams;
+      try {
+        const instance = getInstance(instanceName ?? activeInstanceName);
+        context.instance = instance;
+        resolvedParams = parameters.cluster ? { ...toolParams, cluster: toolParams.cluster ?? instance.defaultCluster } : toolParams;
+        const result = await requestContext.run(context, async () => {
+          // Dry runs and validation-only calls change nothing, so they need no confirmation
+          const dryRun = resolvedParams.dryRun === true || resolvedParams.validateOnly === true;
+          const confirmation = confirm && !dryRun ? await checkConfirmation(name, resolvedParams, confirmationToken, preview, confirmationState) : undefined;
+          if (confirmation?.result) {
+            return confirmation.result;
+          }
+          context.executed = true;
+          return handler(resolvedParams, extra, confirmation?.pinned);
+        });
+        await auditToolCall(name, resolvedParams, context, result?.isError ? result.content?.[0]?.text : undefined);
+        return result;
+      } catch (error) {
+        await auditToolCall(name, resolvedParams, context, redactSecrets((error as Error).message));
+        if (error instanceof AkhqApiError) {
+          return errorResult(error);
+        }
+        if (error instanceof z.ZodError) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ error: 'Validation error', details: error.errors })
+              }
+            ]
+          };
+        }
+        throw error;
+      }
+    });
   } catch (error) {
     console.error(`Failed to register tool ${name}:`, error);
   }
 }
 
 // Default tools
+async function listInstances() {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(describeInstances())
+      }
+    ]
+  };
+}
+
+registerTool(
+  'list_instances',
+  'List the registered AKHQ instances with their URL, default cluster and whether they are active',
+  {},
+  listInstances
+);
+
+// Kept for clients written against earlier versions
 registerTool(
   'get_servers',
-  'Get available servers from the Swagger spec',
+  'Alias of list_instances',
   {},
-  async () => {
+  listInstances
+);
+
+registerTool(
+  'use_instance',
+  'Select the AKHQ instance used by tool calls that do not pass an instance argument',
+  {
+    name: z.string().describe('Name of a registered instance')
+  },
+  async (params) => {
+    const validatedParams = z.object({ name: z.string() }).parse(params);
+    activeInstanceName = getInstance(validatedParams.name, 'name').name;
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify([])
+          text: JSON.stringify({ success: true, activeInstance: activeInstanceName })
         }
       ]
     };
@@ -87,19 +1033,55 @@ registerTool(
 );
 
 registerTool(
-  'set_base_url',
-  'Set the base URL for API requests',
+  'get_audit_log',
+  'List the most recent changes made through this server, from the audit log configured with AKHQ_AUDIT_LOG. When lines of the log are not valid JSON, returns {records, unparseableLines} with their line numbers',
   {
-    url: z.string().describe('The new base URL')
+    limit: z.number().optional().describe('Maximum number of records to return, newest first (default 50)'),
+    tool: z.string().optional().describe('Only return records of this tool'),
+    since: z.string().optional().describe('Only return records at or after this ISO timestamp')
   },
   async (params) => {
-    const validatedParams = z.object({ url: z.string() }).parse(params);
-    baseUrl = validatedParams.url;
+    const validatedParams = z.object({
+      limit: z.number().optional(),
+      tool: z.string().optional(),
+      since: z.string().refine(since => !Number.isNaN(Date.parse(since)), { message: 'since must be an ISO 8601 timestamp' }).optional()
+    }).parse(params);
+    if (!auditLogPath) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ error: 'Audit log is not configured', hint: 'Set AKHQ_AUDIT_LOG or --audit-log to a file path.' })
+          }
+        ]
+      };
+    }
+    const lines = await readFile(auditLogPath, 'utf8').catch(() => '');
+    // A line cut short by a crash or edited by hand is reported by its line number instead of failing the whole read
+    const unparseable: number[] = [];
+    const parsed = lines.split('\n').flatMap((line, index) => {
+      if (!line) {
+        return [];
+      }
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        unparseable.push(index + 1);
+        return [];
+      }
+    });
+    const since = validatedParams.since ? new Date(validatedParams.since).toISOString() : undefined;
+    const records = parsed
+      .filter(record => !validatedParams.tool || record.tool === validatedParams.tool)
+      .filter(record => !since || record.timestamp >= since)
+      .reverse()
+      .slice(0, validatedParams.limit ?? 50);
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify({ success: true, newBaseUrl: baseUrl })
+          text: JSON.stringify(unparseable.length ? { records, unparseableLines: unparseable } : records)
         }
       ]
     };
@@ -119,6 +1101,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -145,6 +1128,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -171,6 +1155,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -197,6 +1182,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -224,11 +1210,12 @@ registerTool(
     cluster: z.string(),
     search: z.string().nullable().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/acls', validatedParams);
+      const endpoint = parameterizeEndpoint('/api/{cluster}/acls', validatedParams, ['search']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -258,11 +1245,12 @@ registerTool(
     principal: z.string(),
     resourceType: z.string().nullable().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/acls/{principal}', validatedParams);
+      const endpoint = parameterizeEndpoint('/api/{cluster}/acls/{principal}', validatedParams, ['resourceType']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -284,7 +1272,9 @@ registerTool(
     cluster: z.string(),
     connectId: z.string(),
     search: z.string().nullable().optional(),
-    page: z.number().nullable().optional()
+    page: z.number().nullable().optional(),
+    allPages: z.boolean().optional().describe('Follow all pages and merge their results, up to maxPages'),
+    maxPages: z.number().optional().describe('Maximum number of pages to fetch with allPages (default 10)')
   },
   async (params) => {
     try {
@@ -292,13 +1282,28 @@ registerTool(
     cluster: z.string(),
     connectId: z.string(),
     search: z.string().nullable().optional(),
-    page: z.number().nullable().optional()
+    page: z.number().nullable().optional(),
+    allPages: z.boolean().optional(),
+    maxPages: z.number().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/connect/{connectId}', validatedParams);
+      const { allPages, maxPages = 10, ...urlParams } = validatedParams;
+      if (allPages) {
+        const result = await fetchAllPages('/api/{cluster}/connect/{connectId}', urlParams, ['search', 'page'], maxPages);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: redactSecrets(JSON.stringify(result))
+            }
+          ]
+        };
+      }
+      const endpoint = parameterizeEndpoint('/api/{cluster}/connect/{connectId}', urlParams, ['search', 'page']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -334,11 +1339,13 @@ registerTool(
       configs: z.record(z.any()).optional()
     })
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/connect/{connectId}', validatedParams);
-      return callApi(endpoint, 'POST', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/connect/{connectId}', urlParams);
+      return callApi(endpoint, 'POST', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -371,6 +1378,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -405,6 +1413,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -440,11 +1449,13 @@ registerTool(
       configs: z.record(z.any()).optional()
     })
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/connect/{connectId}/plugins/{type}/validate', validatedParams);
-      return callApi(endpoint, 'PUT', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/connect/{connectId}/plugins/{type}/validate', urlParams);
+      return callApi(endpoint, 'PUT', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -479,6 +1490,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -513,6 +1525,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -547,6 +1560,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -582,11 +1596,13 @@ registerTool(
       configs: z.record(z.any()).optional()
     })
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/connect/{connectId}/{name}/configs', validatedParams);
-      return callApi(endpoint, 'POST', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/connect/{connectId}/{name}/configs', urlParams);
+      return callApi(endpoint, 'POST', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -621,6 +1637,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -655,6 +1672,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -689,6 +1707,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -723,6 +1742,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -759,6 +1779,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -779,20 +1800,37 @@ registerTool(
   {
     cluster: z.string(),
     search: z.string().nullable().optional(),
-    page: z.number().nullable().optional()
+    page: z.number().nullable().optional(),
+    allPages: z.boolean().optional().describe('Follow all pages and merge their results, up to maxPages'),
+    maxPages: z.number().optional().describe('Maximum number of pages to fetch with allPages (default 10)')
   },
   async (params) => {
     try {
       const validatedParams = z.object({
     cluster: z.string(),
     search: z.string().nullable().optional(),
-    page: z.number().nullable().optional()
+    page: z.number().nullable().optional(),
+    allPages: z.boolean().optional(),
+    maxPages: z.number().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/group', validatedParams);
+      const { allPages, maxPages = 10, ...urlParams } = validatedParams;
+      if (allPages) {
+        const result = await fetchAllPages('/api/{cluster}/group', urlParams, ['search', 'page'], maxPages);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: redactSecrets(JSON.stringify(result))
+            }
+          ]
+        };
+      }
+      const endpoint = parameterizeEndpoint('/api/{cluster}/group', urlParams, ['search', 'page']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -820,11 +1858,12 @@ registerTool(
     cluster: z.string(),
     topics: z.array(z.string()).nullable().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/group/topics', validatedParams);
+      const endpoint = parameterizeEndpoint('/api/{cluster}/group/topics', validatedParams, ['topics']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -857,6 +1896,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -889,6 +1929,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -921,6 +1962,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -953,6 +1995,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -985,6 +2028,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1022,11 +2066,13 @@ registerTool(
       offset: z.number().optional()
     }))
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/group/{groupName}/offsets', validatedParams);
-      return callApi(endpoint, 'POST', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/group/{groupName}/offsets', urlParams);
+      return callApi(endpoint, 'POST', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1056,11 +2102,12 @@ registerTool(
     groupName: z.string(),
     timestamp: z.string()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/group/{groupName}/offsets/start', validatedParams);
+      const endpoint = parameterizeEndpoint('/api/{cluster}/group/{groupName}/offsets/start', validatedParams, ['timestamp']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1095,6 +2142,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1128,11 +2176,13 @@ registerTool(
       sql: z.string().optional()
     })
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/ksqldb/{ksqlDbId}/execute', validatedParams);
-      return callApi(endpoint, 'PUT', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/ksqldb/{ksqlDbId}/execute', urlParams);
+      return callApi(endpoint, 'PUT', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1165,6 +2215,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1186,7 +2237,9 @@ registerTool(
     cluster: z.string(),
     ksqlDbId: z.string(),
     search: z.string().nullable().optional(),
-    page: z.number().nullable().optional()
+    page: z.number().nullable().optional(),
+    allPages: z.boolean().optional().describe('Follow all pages and merge their results, up to maxPages'),
+    maxPages: z.number().optional().describe('Maximum number of pages to fetch with allPages (default 10)')
   },
   async (params) => {
     try {
@@ -1194,13 +2247,28 @@ registerTool(
     cluster: z.string(),
     ksqlDbId: z.string(),
     search: z.string().nullable().optional(),
-    page: z.number().nullable().optional()
+    page: z.number().nullable().optional(),
+    allPages: z.boolean().optional(),
+    maxPages: z.number().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/ksqldb/{ksqlDbId}/queries', validatedParams);
+      const { allPages, maxPages = 10, ...urlParams } = validatedParams;
+      if (allPages) {
+        const result = await fetchAllPages('/api/{cluster}/ksqldb/{ksqlDbId}/queries', urlParams, ['search', 'page'], maxPages);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: redactSecrets(JSON.stringify(result))
+            }
+          ]
+        };
+      }
+      const endpoint = parameterizeEndpoint('/api/{cluster}/ksqldb/{ksqlDbId}/queries', urlParams, ['search', 'page']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1236,11 +2304,13 @@ registerTool(
       properties: z.record(z.any()).optional()
     })
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/ksqldb/{ksqlDbId}/queries/pull', validatedParams);
-      return callApi(endpoint, 'PUT', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/ksqldb/{ksqlDbId}/queries/pull', urlParams);
+      return callApi(endpoint, 'PUT', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1262,7 +2332,9 @@ registerTool(
     cluster: z.string(),
     ksqlDbId: z.string(),
     search: z.string().nullable().optional(),
-    page: z.number().nullable().optional()
+    page: z.number().nullable().optional(),
+    allPages: z.boolean().optional().describe('Follow all pages and merge their results, up to maxPages'),
+    maxPages: z.number().optional().describe('Maximum number of pages to fetch with allPages (default 10)')
   },
   async (params) => {
     try {
@@ -1270,13 +2342,28 @@ registerTool(
     cluster: z.string(),
     ksqlDbId: z.string(),
     search: z.string().nullable().optional(),
-    page: z.number().nullable().optional()
+    page: z.number().nullable().optional(),
+    allPages: z.boolean().optional(),
+    maxPages: z.number().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/ksqldb/{ksqlDbId}/streams', validatedParams);
+      const { allPages, maxPages = 10, ...urlParams } = validatedParams;
+      if (allPages) {
+        const result = await fetchAllPages('/api/{cluster}/ksqldb/{ksqlDbId}/streams', urlParams, ['search', 'page'], maxPages);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: redactSecrets(JSON.stringify(result))
+            }
+          ]
+        };
+      }
+      const endpoint = parameterizeEndpoint('/api/{cluster}/ksqldb/{ksqlDbId}/streams', urlParams, ['search', 'page']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1298,7 +2385,9 @@ registerTool(
     cluster: z.string(),
     ksqlDbId: z.string(),
     search: z.string().nullable().optional(),
-    page: z.number().nullable().optional()
+    page: z.number().nullable().optional(),
+    allPages: z.boolean().optional().describe('Follow all pages and merge their results, up to maxPages'),
+    maxPages: z.number().optional().describe('Maximum number of pages to fetch with allPages (default 10)')
   },
   async (params) => {
     try {
@@ -1306,13 +2395,28 @@ registerTool(
     cluster: z.string(),
     ksqlDbId: z.string(),
     search: z.string().nullable().optional(),
-    page: z.number().nullable().optional()
+    page: z.number().nullable().optional(),
+    allPages: z.boolean().optional(),
+    maxPages: z.number().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/ksqldb/{ksqlDbId}/tables', validatedParams);
+      const { allPages, maxPages = 10, ...urlParams } = validatedParams;
+      if (allPages) {
+        const result = await fetchAllPages('/api/{cluster}/ksqldb/{ksqlDbId}/tables', urlParams, ['search', 'page'], maxPages);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: redactSecrets(JSON.stringify(result))
+            }
+          ]
+        };
+      }
+      const endpoint = parameterizeEndpoint('/api/{cluster}/ksqldb/{ksqlDbId}/tables', urlParams, ['search', 'page']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1343,6 +2447,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1373,6 +2478,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1405,6 +2511,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1437,6 +2544,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1470,11 +2578,13 @@ registerTool(
       configs: z.record(z.any()).optional()
     })
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/node/{nodeId}/configs', validatedParams);
-      return callApi(endpoint, 'POST', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/node/{nodeId}/configs', urlParams);
+      return callApi(endpoint, 'POST', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1507,6 +2617,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1527,20 +2638,37 @@ registerTool(
   {
     cluster: z.string(),
     search: z.string().nullable().optional(),
-    page: z.number().nullable().optional()
+    page: z.number().nullable().optional(),
+    allPages: z.boolean().optional().describe('Follow all pages and merge their results, up to maxPages'),
+    maxPages: z.number().optional().describe('Maximum number of pages to fetch with allPages (default 10)')
   },
   async (params) => {
     try {
       const validatedParams = z.object({
     cluster: z.string(),
     search: z.string().nullable().optional(),
-    page: z.number().nullable().optional()
+    page: z.number().nullable().optional(),
+    allPages: z.boolean().optional(),
+    maxPages: z.number().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/schema', validatedParams);
+      const { allPages, maxPages = 10, ...urlParams } = validatedParams;
+      if (allPages) {
+        const result = await fetchAllPages('/api/{cluster}/schema', urlParams, ['search', 'page'], maxPages);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: redactSecrets(JSON.stringify(result))
+            }
+          ]
+        };
+      }
+      const endpoint = parameterizeEndpoint('/api/{cluster}/schema', urlParams, ['search', 'page']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1594,11 +2722,13 @@ registerTool(
       exception: z.string().optional()
     })
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/schema', validatedParams);
-      return callApi(endpoint, 'POST', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/schema', urlParams);
+      return callApi(endpoint, 'POST', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1628,11 +2758,12 @@ registerTool(
     id: z.number().describe('- The schema id'),
     topic: z.string().nullable().optional().describe('- (Optional) The topic name')
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/schema/id/{id}', validatedParams);
+      const endpoint = parameterizeEndpoint('/api/{cluster}/schema/id/{id}', validatedParams, ['topic']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1665,6 +2796,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1697,6 +2829,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1752,11 +2885,13 @@ registerTool(
       exception: z.string().optional()
     })
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/schema/{subject}', validatedParams);
-      return callApi(endpoint, 'POST', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/schema/{subject}', urlParams);
+      return callApi(endpoint, 'POST', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1789,6 +2924,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1821,6 +2957,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1855,6 +2992,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1885,6 +3023,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1901,26 +3040,45 @@ registerTool(
 // Tail for data on multiple topic
 registerTool(
   'get_tail_sse',
-  'Tail for data on multiple topic',
+  'Tail for data on multiple topic. Collects live records until maxRecords, maxDurationMs or a record matching the match text is reached, and returns the after cursors to continue the tail in a later call',
   {
     cluster: z.string(),
     topics: z.array(z.string()),
     search: z.string().nullable().optional(),
-    after: z.array(z.string()).nullable().optional()
+    after: z.array(z.string()).nullable().optional().describe('Cursors returned by a previous call to continue the tail'),
+    maxRecords: z.number().optional().describe('Stop after the batch that reaches this many records (default 100)'),
+    maxDurationMs: z.number().optional().describe('Stop tailing after this many milliseconds (default 10000)'),
+    match: z.string().optional().describe('Stop once a record whose key or value contains this text arrives'),
+    validateSchemas: z.boolean().optional().describe('Resolve the key and value schema of each record by its schema id, validate the record against it and summarize the schema ids seen')
   },
-  async (params) => {
+  async (params, extra) => {
     try {
       const validatedParams = z.object({
     cluster: z.string(),
     topics: z.array(z.string()),
     search: z.string().nullable().optional(),
-    after: z.array(z.string()).nullable().optional()
+    after: z.array(z.string()).nullable().optional(),
+    maxRecords: z.number().optional(),
+    maxDurationMs: z.number().optional(),
+    match: z.string().optional(),
+    validateSchemas: z.boolean().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/tail/sse', validatedParams);
-      return callApi(endpoint, 'GET');
+      const { maxRecords = 100, maxDurationMs = 10000, match, validateSchemas, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/tail/sse', urlParams, ['topics', 'search', 'after']);
+      const tail = await tailTopics(endpoint, { maxRecords, maxDurationMs, match }, extra);
+      const result = validateSchemas ? { ...tail, schemaValidation: await validateRecordSchemas(urlParams.cluster, tail.records) } : tail;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: redactSecrets(JSON.stringify(result))
+          }
+        ]
+      };
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1943,7 +3101,9 @@ registerTool(
     search: z.string().nullable().optional(),
     show: z.string().nullable().optional(),
     page: z.number().nullable().optional(),
-    uiPageSize: z.number().nullable().optional()
+    uiPageSize: z.number().nullable().optional(),
+    allPages: z.boolean().optional().describe('Follow all pages and merge their results, up to maxPages'),
+    maxPages: z.number().optional().describe('Maximum number of pages to fetch with allPages (default 10)')
   },
   async (params) => {
     try {
@@ -1952,13 +3112,28 @@ registerTool(
     search: z.string().nullable().optional(),
     show: z.string().nullable().optional(),
     page: z.number().nullable().optional(),
-    uiPageSize: z.number().nullable().optional()
+    uiPageSize: z.number().nullable().optional(),
+    allPages: z.boolean().optional(),
+    maxPages: z.number().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/topic', validatedParams);
+      const { allPages, maxPages = 10, ...urlParams } = validatedParams;
+      if (allPages) {
+        const result = await fetchAllPages('/api/{cluster}/topic', urlParams, ['search', 'show', 'page', 'uiPageSize'], maxPages);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: redactSecrets(JSON.stringify(result))
+            }
+          ]
+        };
+      }
+      const endpoint = parameterizeEndpoint('/api/{cluster}/topic', urlParams, ['search', 'show', 'page', 'uiPageSize']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -1996,11 +3171,13 @@ registerTool(
       configs: z.record(z.any()).optional()
     })
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/topic', validatedParams);
-      return callApi(endpoint, 'POST', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/topic', urlParams);
+      return callApi(endpoint, 'POST', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2028,11 +3205,12 @@ registerTool(
     cluster: z.string(),
     topics: z.array(z.string())
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/last-record', validatedParams);
+      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/last-record', validatedParams, ['topics']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2060,11 +3238,12 @@ registerTool(
     cluster: z.string(),
     show: z.string().nullable().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/name', validatedParams);
+      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/name', validatedParams, ['show']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2097,6 +3276,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2129,6 +3309,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2161,6 +3342,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2193,6 +3375,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2226,11 +3409,13 @@ registerTool(
       configs: z.record(z.any()).optional()
     })
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/configs', validatedParams);
-      return callApi(endpoint, 'POST', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/configs', urlParams);
+      return callApi(endpoint, 'POST', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2261,7 +3446,8 @@ registerTool(
     searchByHeaderKey: z.string().nullable().optional(),
     searchByHeaderValue: z.string().nullable().optional(),
     searchByKeySubject: z.string().nullable().optional(),
-    searchByValueSubject: z.string().nullable().optional()
+    searchByValueSubject: z.string().nullable().optional(),
+    validateSchemas: z.boolean().optional().describe('Resolve the key and value schema of each record by its schema id, validate the record against it and summarize the schema ids seen')
   },
   async (params) => {
     try {
@@ -2278,13 +3464,28 @@ registerTool(
     searchByHeaderKey: z.string().nullable().optional(),
     searchByHeaderValue: z.string().nullable().optional(),
     searchByKeySubject: z.string().nullable().optional(),
-    searchByValueSubject: z.string().nullable().optional()
+    searchByValueSubject: z.string().nullable().optional(),
+    validateSchemas: z.boolean().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/data', validatedParams);
+      const { validateSchemas, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/data', urlParams, ['after', 'partition', 'sort', 'timestamp', 'endTimestamp', 'searchByKey', 'searchByValue', 'searchByHeaderKey', 'searchByHeaderValue', 'searchByKeySubject', 'searchByValueSubject']);
+      if (validateSchemas) {
+        const data = await getJson(endpoint);
+        const schemaValidation = await validateRecordSchemas(urlParams.cluster, data.results ?? [], urlParams.topicName);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: redactSecrets(JSON.stringify({ ...data, schemaValidation }))
+            }
+          ]
+        };
+      }
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2340,11 +3541,13 @@ registerTool(
       keyValueSeparator: z.string().nullable().optional()
     })
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/data', validatedParams);
-      return callApi(endpoint, 'POST', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/data', urlParams);
+      return callApi(endpoint, 'POST', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2380,11 +3583,13 @@ registerTool(
       key: z.string().optional()
     })
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/data', validatedParams);
-      return callApi(endpoint, 'DELETE');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/data', urlParams);
+      return callApi(endpoint, 'DELETE', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2401,7 +3606,7 @@ registerTool(
 // Download data for a topic
 registerTool(
   'get_topic_data_download',
-  'Download data for a topic',
+  'Download data for a topic to a local file and return its path',
   {
     cluster: z.string(),
     topicName: z.string(),
@@ -2415,7 +3620,9 @@ registerTool(
     searchByHeaderKey: z.string().nullable().optional(),
     searchByHeaderValue: z.string().nullable().optional(),
     searchByKeySubject: z.string().nullable().optional(),
-    searchByValueSubject: z.string().nullable().optional()
+    searchByValueSubject: z.string().nullable().optional(),
+    outputPath: z.string().optional().describe('Local file to write the export to, defaults to a new file in the temp directory'),
+    overwrite: z.boolean().optional().describe('Replace outputPath if it already exists (default false)')
   },
   async (params) => {
     try {
@@ -2432,13 +3639,26 @@ registerTool(
     searchByHeaderKey: z.string().nullable().optional(),
     searchByHeaderValue: z.string().nullable().optional(),
     searchByKeySubject: z.string().nullable().optional(),
-    searchByValueSubject: z.string().nullable().optional()
+    searchByValueSubject: z.string().nullable().optional(),
+    outputPath: z.string().optional(),
+    overwrite: z.boolean().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/data/download', validatedParams);
-      return callApi(endpoint, 'GET');
+      const { outputPath, overwrite, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/data/download', urlParams, ['after', 'partition', 'sort', 'timestamp', 'endTimestamp', 'searchByKey', 'searchByValue', 'searchByHeaderKey', 'searchByHeaderValue', 'searchByKeySubject', 'searchByValueSubject']);
+      const path = outputPath ?? join(tmpdir(), `akhq-${validatedParams.topicName}-${Date.now()}.json`);
+      const result = await downloadToFile(endpoint, path, overwrite);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result)
+          }
+        ]
+      };
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2471,6 +3691,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2507,6 +3728,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2523,7 +3745,7 @@ registerTool(
 // Search for data for a topic
 registerTool(
   'get_topic_data_search',
-  'Search for data for a topic',
+  'Search for data for a topic. Collects the streamed search results until the search ends, maxRecords or maxDurationMs is reached, and returns the after cursor to continue the search',
   {
     cluster: z.string(),
     topicName: z.string(),
@@ -2537,9 +3759,12 @@ registerTool(
     searchByHeaderKey: z.string().nullable().optional(),
     searchByHeaderValue: z.string().nullable().optional(),
     searchByKeySubject: z.string().nullable().optional(),
-    searchByValueSubject: z.string().nullable().optional()
+    searchByValueSubject: z.string().nullable().optional(),
+    maxRecords: z.number().optional().describe('Stop after the batch that reaches this many records (default 100)'),
+    maxDurationMs: z.number().optional().describe('Stop searching after this many milliseconds (default 30000)'),
+    validateSchemas: z.boolean().optional().describe('Resolve the key and value schema of each record by its schema id, validate the record against it and summarize the schema ids seen')
   },
-  async (params) => {
+  async (params, extra) => {
     try {
       const validatedParams = z.object({
     cluster: z.string(),
@@ -2554,13 +3779,27 @@ registerTool(
     searchByHeaderKey: z.string().nullable().optional(),
     searchByHeaderValue: z.string().nullable().optional(),
     searchByKeySubject: z.string().nullable().optional(),
-    searchByValueSubject: z.string().nullable().optional()
+    searchByValueSubject: z.string().nullable().optional(),
+    maxRecords: z.number().optional(),
+    maxDurationMs: z.number().optional(),
+    validateSchemas: z.boolean().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/data/search', validatedParams);
-      return callApi(endpoint, 'GET');
+      const { maxRecords = 100, maxDurationMs = 30000, validateSchemas, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/data/search', urlParams, ['after', 'partition', 'sort', 'timestamp', 'endTimestamp', 'searchByKey', 'searchByValue', 'searchByHeaderKey', 'searchByHeaderValue', 'searchByKeySubject', 'searchByValueSubject']);
+      const search = await searchTopicData(endpoint, { maxRecords, maxDurationMs }, extra);
+      const result = validateSchemas ? { ...search, schemaValidation: await validateRecordSchemas(urlParams.cluster, search.records, urlParams.topicName) } : search;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: redactSecrets(JSON.stringify(result))
+          }
+        ]
+      };
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2593,6 +3832,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2625,6 +3865,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2654,11 +3895,12 @@ registerTool(
     topicName: z.string(),
     timestamp: z.string().nullable().optional()
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/offsets/start', validatedParams);
+      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/offsets/start', validatedParams, ['timestamp']);
       return callApi(endpoint, 'GET');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2691,6 +3933,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2720,11 +3963,13 @@ registerTool(
     topicName: z.string(),
     body: z.record(z.any())
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/partitions', validatedParams);
-      return callApi(endpoint, 'POST', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/partitions', urlParams);
+      return callApi(endpoint, 'POST', body, 'application/json');
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2755,6 +4000,7 @@ registerTool(
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -2794,11 +4040,4196 @@ registerTool(
       offset: z.number().optional()
     }))
   }).parse(params);
-      const endpoint = parameterizeEndpoint('/api/{fromCluster}/topic/{fromTopicName}/copy/{toCluster}/topic/{toTopicName}', validatedParams);
-      return callApi(endpoint, 'POST', validatedParams, 'application/json');
+      const { body, ...urlParams } = validatedParams;
+      const endpoint = parameterizeEndpoint('/api/{fromCluster}/topic/{fromTopicName}/copy/{toCluster}/topic/{toTopicName}', urlParams);
+      return callApi(endpoint, 'POST', body, 'application/json');
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  }
+);
+
+interface PartitionLag {
+  group: string;
+  topic: string;
+  partition: number;
+  committed: number | null;
+  end: number | null;
+  lag: number | null;
+  member: string | null;
+  stalled: boolean;
+}
+
+// Caches the end offset of every partition of a topic for the duration of one analysis
+type EndOffsetCache = Map<string, Promise<Map<number, number>>>;
+
+function topicEndOffsets(cluster: string, topic: string, cache: EndOffsetCache): Promise<Map<number, number>> {
+  if (!cache.has(topic)) {
+    cache.set(topic, getJson(parameterizeEndpoint('/api/{cluster}/topic/{topicName}/partitions', { cluster, topicName: topic }))
+      .then((partitions: any[]) => new Map(partitions.map(partition => [partition.id, partition.lastOffset]))));
+  }
+  return cache.get(topic)!;
+}
+
+async function listGroupNames(cluster: string): Promise<{ names: string[]; truncated: boolean }> {
+  const { results, truncated } = await fetchAllPages('/api/{cluster}/group', { cluster }, [], 50);
+  return { names: results.map((group: any) => group.id), truncated };
+}
+
+// Groups past the page limit are missing from every table and total, so the result says so up front
+function groupListingNote(truncated: boolean): string[] {
+  return truncated ? ['Only the groups on the first 50 pages of the group listing were read, the groups after them are not included.', ''] : [];
+}
+
+// Computes the lag of every partition a group has committed offsets for, against the partition end offsets.
+// A partition is stalled when it has lag but no group member is assigned to consume it.
+async function groupPartitionLags(cluster: string, group: string, cache: EndOffsetCache, topicFilter?: string): Promise<PartitionLag[]> {
+  const offsets: any[] = await getJson(parameterizeEndpoint('/api/{cluster}/group/{groupName}/offsets', { cluster, groupName: group }));
+  const lags: PartitionLag[] = [];
+  for (const entry of offsets) {
+    if (topicFilter && entry.topic !== topicFilter) {
+      continue;
+    }
+    const end = (await topicEndOffsets(cluster, entry.topic, cache)).get(entry.partition) ?? entry.lastOffset ?? null;
+    const committed = entry.offset ?? null;
+    const lag = committed === null || end === null ? null : Math.max(end - committed, 0);
+    const member = entry.member ? entry.member.clientId ?? entry.member.id ?? null : null;
+    lags.push({ group, topic: entry.topic, partition: entry.partition, committed, end, lag, member, stalled: !!lag && !member });
+  }
+  return lags;
+}
+
+function summarizeLag(lags: PartitionLag[], top: number): string {
+  const byTopic = new Map<string, PartitionLag[]>();
+  for (const lag of lags) {
+    const key = `${lag.group}\u0000${lag.topic}`;
+    byTopic.set(key, [...byTopic.get(key) ?? [], lag]);
+  }
+  const topicRows = [...byTopic.values()]
+    .map(partitions => {
+      const lagSum = partitions.reduce((sum, partition) => sum + (partition.lag ?? 0), 0);
+      return [partitions[0].group, partitions[0].topic, partitions.length, lagSum, partitions.filter(partition => partition.stalled).length];
+    })
+    .sort((a, b) => (b[3] as number) - (a[3] as number));
+  const groupTotals = new Map<string, number>();
+  for (const lag of lags) {
+    groupTotals.set(lag.group, (groupTotals.get(lag.group) ?? 0) + (lag.lag ?? 0));
+  }
+  const worst = lags
+    .filter(lag => lag.lag)
+    .sort((a, b) => (b.lag ?? 0) - (a.lag ?? 0))
+    .slice(0, top);
+  const total = lags.reduce((sum, lag) => sum + (lag.lag ?? 0), 0);
+  const stalled = lags.filter(lag => lag.stalled).length;
+  const uncommitted = lags.filter(lag => lag.committed === null).length;
+  return [
+    `Total lag: ${total} across ${groupTotals.size} group(s) and ${lags.length} partition(s); ${stalled} stalled partition(s) with lag and no assigned consumer${uncommitted ? `; ${uncommitted} partition(s) without committed offset` : ''}.`,
+    '',
+    '## Groups',
+    formatTable(['group', 'lag'], [...groupTotals.entries()].sort((a, b) => b[1] - a[1])),
+    '',
+    '## Topics',
+    formatTable(['group', 'topic', 'partitions', 'lag', 'stalled'], topicRows),
+    '',
+    `## Worst partitions (top ${top})`,
+    formatTable(
+      ['group', 'topic', 'partition', 'committed', 'end', 'lag', 'consumer', 'stalled'],
+      worst.map(lag => [lag.group, lag.topic, lag.partition, lag.committed, lag.end, lag.lag, lag.member, lag.stalled ? 'yes' : ''])
+    )
+  ].join('\n');
+}
+
+// Consumer lag analysis across group offsets and topic end offsets
+registerTool(
+  'analyze_consumer_lag',
+  'Analyze consumer lag for one consumer group or all groups of a cluster. Returns per-group, per-topic and worst per-partition lag as compact tables and flags stalled partitions that have lag but no assigned consumer',
+  {
+    cluster: z.string(),
+    groupName: z.string().optional().describe('Consumer group to analyze, all groups of the cluster when omitted'),
+    topic: z.string().optional().describe('Only analyze this topic'),
+    top: z.number().optional().describe('Number of worst partitions to list (default 10)')
+  },
+  async (params) => {
+    try {
+      const validatedParams = z.object({
+    cluster: z.string(),
+    groupName: z.string().optional(),
+    topic: z.string().optional(),
+    top: z.number().optional()
+  }).parse(params);
+      const { cluster, groupName, topic, top = 10 } = validatedParams;
+      const listing = groupName ? { names: [groupName], truncated: false } : await listGroupNames(cluster);
+      const groups = listing.names;
+      const cache: EndOffsetCache = new Map();
+      const lags: PartitionLag[] = [];
+      for (const group of groups) {
+        lags.push(...await groupPartitionLags(cluster, group, cache, topic));
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [...groupListingNote(listing.truncated), summarizeLag(lags, top)].join('\n')
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  }
+);
+
+interface LagSample {
+  time: number;
+  committed: number;
+  end: number;
+}
+
+// Lag samples per instance, cluster, group and partition, kept for the session so that later calls extend the trend
+const lagSamples = new Map<string, LagSample[]>();
+const MAX_LAG_SAMPLES = 100;
+const LAG_SAMPLE_RETENTION_MS = 60 * 60 * 1000;
+
+function recordLagSample(cluster: string, lag: PartitionLag, time: number): LagSample[] {
+  const key = [currentInstance().name, cluster, lag.group, lag.topic, lag.partition].join('\u0000');
+  const samples = (lagSamples.get(key) ?? []).filter(sample => sample.time >= time - LAG_SAMPLE_RETENTION_MS);
+  if (lag.committed !== null && lag.end !== null) {
+    samples.push({ time, committed: lag.committed, end: lag.end });
+  }
+  const retained = samples.slice(-MAX_LAG_SAMPLES);
+  lagSamples.set(key, retained);
+  return retained;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${Math.ceil(seconds)}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m ${Math.ceil(seconds % 60)}s`;
+  }
+  return `${Math.floor(seconds / 3600)}h ${Math.floor(seconds % 3600 / 60)}m`;
+}
+
+// Derives produce and consume rates from the oldest and newest sample and estimates the time to catch up
+function lagTrend(samples: LagSample[]) {
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const lag = Math.max(last.end - last.committed, 0);
+  const seconds = (last.time - first.time) / 1000;
+  if (samples.length < 2 || seconds <= 0) {
+    return { lag, produceRate: null, consumeRate: null, trend: 'unknown', eta: null };
+  }
+  const produceRate = (last.end - first.end) / seconds;
+  const consumeRate = (last.committed - first.committed) / seconds;
+  const round = (rate: number) => Math.round(rate * 100) / 100;
+  if (lag === 0) {
+    return { lag, produceRate: round(produceRate), consumeRate: round(consumeRate), trend: 'caught up', eta: null };
+  }
+  if (consumeRate <= produceRate) {
+    return { lag, produceRate: round(produceRate), consumeRate: round(consumeRate), trend: consumeRate === 0 ? 'stalled' : 'growing', eta: null };
+  }
+  return { lag, produceRate: round(produceRate), consumeRate: round(consumeRate), trend: 'recovering', eta: formatDuration(lag / (consumeRate - produceRate)) };
+}
+
+// Lag trend sampling over a time window
+registerTool(
+  'sample_consumer_lag',
+  'Sample consumer group offsets and topic end offsets several times to compute produce and consume rates and estimate the time for a group to catch up, or report that its lag is growing. Samples are kept for the session, so repeated calls extend the trend',
+  {
+    cluster: z.string(),
+    groupName: z.string().optional().describe('Consumer group to sample, all groups of the cluster when omitted'),
+    topic: z.string().optional().describe('Only sample this topic'),
+    samples: z.number().optional().describe('Number of samples to take in this call (default 3)'),
+    intervalMs: z.number().optional().describe('Time between samples in milliseconds (default 10000)')
+  },
+  async (params, extra) => {
+    try {
+      const validatedParams = z.object({
+    cluster: z.string(),
+    groupName: z.string().optional(),
+    topic: z.string().optional(),
+    samples: z.number().min(1).max(60).optional(),
+    intervalMs: z.number().min(0).max(300000).optional()
+  }).parse(params);
+      const { cluster, groupName, topic, samples = 3, intervalMs = 10000 } = validatedParams;
+      const listing = groupName ? { names: [groupName], truncated: false } : await listGroupNames(cluster);
+      const groups = listing.names;
+      const trends = new Map<string, { lag: PartitionLag; samples: LagSample[] }>();
+      for (let sample = 0; sample < samples; sample++) {
+        if (sample > 0) {
+          await sleep(intervalMs, extra.signal);
+        }
+        if (extra.signal.aborted) {
+          break;
+        }
+        const time = Date.now();
+        const cache: EndOffsetCache = new Map();
+        for (const group of groups) {
+          for (const lag of await groupPartitionLags(cluster, group, cache, topic)) {
+            trends.set(`${lag.group}\u0000${lag.topic}\u0000${lag.partition}`, { lag, samples: recordLagSample(cluster, lag, time) });
+          }
+        }
+        await reportProgress(extra, sample + 1, samples);
+      }
+      const rows = [...trends.values()]
+        .filter(({ samples }) => samples.length > 0)
+        .map(({ lag, samples }) => ({ lag, samples, trend: lagTrend(samples) }))
+        .sort((a, b) => b.trend.lag - a.trend.lag);
+      const groupRows = groups.map(group => {
+        const partitions = rows.filter(row => row.lag.group === group);
+        const first = partitions.map(row => row.samples[0]);
+        const last = partitions.map(row => row.samples[row.samples.length - 1]);
+        const combined = partitions.length === 0 ? [] : [
+          { time: Math.min(...first.map(sample => sample.time)), committed: first.reduce((sum, sample) => sum + sample.committed, 0), end: first.reduce((sum, sample) => sum + sample.end, 0) },
+          { time: Math.max(...last.map(sample => sample.time)), committed: last.reduce((sum, sample) => sum + sample.committed, 0), end: last.reduce((sum, sample) => sum + sample.end, 0) }
+        ];
+        const trend = combined.length ? lagTrend(combined) : undefined;
+        return [group, trend?.lag, trend?.produceRate, trend?.consumeRate, trend?.trend ?? 'no offsets', trend?.eta];
+      });
+      const sampleCounts = rows.map(row => row.samples.length);
+      const text = [
+        ...groupListingNote(listing.truncated),
+        `Samples per partition: ${sampleCounts.length ? `${Math.min(...sampleCounts)}-${Math.max(...sampleCounts)}` : 0}. Rates are messages per second between the oldest and newest sample.`,
+        '',
+        '## Groups',
+        formatTable(['group', 'lag', 'produce/s', 'consume/s', 'trend', 'eta'], groupRows),
+        '',
+        '## Partitions',
+        formatTable(
+          ['group', 'topic', 'partition', 'lag', 'produce/s', 'consume/s', 'trend', 'eta'],
+          rows.map(({ lag, trend }) => [lag.group, lag.topic, lag.partition, trend.lag, trend.produceRate, trend.consumeRate, trend.trend, trend.eta])
+        )
+      ].join('\n');
+      return {
+        content: [
+          {
+            type: 'text',
+            text
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  }
+);
+
+const resetGroupOffsetsSchema = z.object({
+  cluster: z.string(),
+  groupName: z.string(),
+  topic: z.string().optional(),
+  partitions: z.array(z.number()).optional(),
+  strategy: z.enum(['to-earliest', 'to-latest', 'to-datetime', 'shift-by', 'to-offset']),
+  datetime: z.string().optional(),
+  shiftBy: z.number().optional(),
+  offsets: z.array(z.object({
+    topic: z.string().optional(),
+    partition: z.number(),
+    offset: z.number()
+  })).optional(),
+  dryRun: z.boolean().optional()
+});
+
+type ResetGroupOffsetsParams = z.infer<typeof resetGroupOffsetsSchema>;
+
+// Computes the new offset of every affected partition with Kafka CLI reset semantics, clamped to the partition's offset range
+async function planOffsetReset(params: ResetGroupOffsetsParams) {
+  const { cluster, groupName, strategy } = params;
+  const members: any[] = await getJson(parameterizeEndpoint('/api/{cluster}/group/{groupName}/members', { cluster, groupName })) ?? [];
+  const committed: any[] = await getJson(parameterizeEndpoint('/api/{cluster}/group/{groupName}/offsets', { cluster, groupName })) ?? [];
+  const topics = params.topic ? [params.topic] : [...new Set(committed.map(entry => entry.topic as string))];
+  const rows: any[] = [];
+  const skipped: string[] = [];
+  for (const topic of topics) {
+    const partitions: any[] = await getJson(parameterizeEndpoint('/api/{cluster}/topic/{topicName}/partitions', { cluster, topicName: topic }));
+    const byTimestamp: any[] = strategy === 'to-datetime'
+      ? await getJson(parameterizeEndpoint('/api/{cluster}/topic/{topicName}/offsets/start', { cluster, topicName: topic, timestamp: params.datetime }, ['timestamp']))
+      : [];
+    for (const partition of partitions) {
+      if (params.partitions && !params.partitions.includes(partition.id)) {
+        continue;
+      }
+      if (!params.topic && !committed.some(entry => entry.topic === topic && entry.partition === partition.id)) {
+        continue;
+      }
+      const current = committed.find(entry => entry.topic === topic && entry.partition === partition.id)?.offset ?? null;
+      let target: number | undefined;
+      switch (strategy) {
+        case 'to-earliest':
+          target = partition.firstOffset;
+          break;
+        case 'to-latest':
+          target = partition.lastOffset;
+          break;
+        case 'to-datetime':
+          // Partitions without a record at or after the datetime move to their end
+          target = byTimestamp.find(entry => entry.partition === partition.id)?.offset ?? partition.lastOffset;
+          break;
+        case 'shift-by':
+          target = current === null ? undefined : current + params.shiftBy!;
+          break;
+        case 'to-offset':
+          target = params.offsets!.find(entry => entry.partition === partition.id && (!entry.topic || entry.topic === topic))?.offset;
+          break;
+      }
+      if (target === undefined) {
+        skipped.push(`${topic}-${partition.id}: ${current === null ? 'no committed offset to shift' : 'no offset given'}`);
+        continue;
+      }
+      const clamped = Math.min(Math.max(target, partition.firstOffset), partition.lastOffset);
+      rows.push({
+        topic,
+        partition: partition.id,
+        currentOffset: current,
+        newOffset: clamped,
+        currentLag: current === null ? null : partition.lastOffset - current,
+        newLag: partition.lastOffset - clamped,
+        clamped: clamped !== target
+      });
+    }
+  }
+  return {
+    group: groupName,
+    strategy,
+    activeMembers: members.length,
+    blocked: members.length > 0 ? `Group ${groupName} has ${members.length} active member(s). Stop its consumers before resetting offsets.` : undefined,
+    partitions: rows,
+    skipped
+  };
+}
+
+function checkResetParams(params: ResetGroupOffsetsParams) {
+  const required = { 'to-datetime': 'datetime', 'shift-by': 'shiftBy', 'to-offset': 'offsets' } as Record<string, keyof ResetGroupOffsetsParams>;
+  const field = required[params.strategy];
+  if (field && params[field] === undefined) {
+    throw new z.ZodError([{ code: 'custom', path: [field], message: `${field} is required for strategy ${params.strategy}` }]);
+  }
+}
+
+// Guided consumer group offset reset
+registerTool(
+  'reset_group_offsets',
+  'Reset consumer group offsets with Kafka CLI style strategies: to-earliest, to-latest, to-datetime, shift-by N or to-offset per partition. Checks that the group has no active members and shows the offsets and lag before and after the reset before applying it. Use dryRun to only see the plan',
+  {
+    cluster: z.string(),
+    groupName: z.string(),
+    topic: z.string().optional().describe('Topic to reset, all topics with committed offsets of the group when omitted'),
+    partitions: z.array(z.number()).optional().describe('Only reset these partitions'),
+    strategy: z.enum(['to-earliest', 'to-latest', 'to-datetime', 'shift-by', 'to-offset']),
+    datetime: z.string().optional().describe('ISO timestamp for to-datetime'),
+    shiftBy: z.number().optional().describe('Number of offsets to move for shift-by, negative to move back'),
+    offsets: z.array(z.object({
+      topic: z.string().optional(),
+      partition: z.number(),
+      offset: z.number()
+    })).optional().describe('Offsets per partition for to-offset'),
+    dryRun: z.boolean().optional().describe('Only return the plan without applying it')
+  },
+  async (params) => {
+    try {
+      const validatedParams = resetGroupOffsetsSchema.parse(params);
+      checkResetParams(validatedParams);
+      const plan = await planOffsetReset(validatedParams);
+      if (plan.blocked || validatedParams.dryRun || plan.partitions.length === 0) {
+        return {
+          isError: !!plan.blocked,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ applied: false, ...plan })
+            }
+          ]
+        };
+      }
+      const body = plan.partitions.map(({ topic, partition, newOffset }) => ({ topic, partition, offset: newOffset }));
+      const { cluster, groupName } = validatedParams;
+      await callApi(parameterizeEndpoint('/api/{cluster}/group/{groupName}/offsets', { cluster, groupName }), 'POST', body, 'application/json');
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ applied: true, ...plan })
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  },
+  async (params) => {
+    const validatedParams = resetGroupOffsetsSchema.parse(params);
+    checkResetParams(validatedParams);
+    return planOffsetReset(validatedParams);
+  }
+);
+
+interface PartitionHealth {
+  topic: string;
+  partition: number;
+  leader: number | null;
+  replicas: number[];
+  inSync: number[];
+}
+
+// Reads leader and replica state from an AKHQ partition, whose replicas carry leader and inSyncReplicas flags
+function partitionHealth(topic: string, partition: any): PartitionHealth {
+  const replicas: any[] = partition.replicas ?? partition.nodes ?? [];
+  const leaderId = typeof partition.leader === 'number' ? partition.leader : partition.leader?.id ?? replicas.find(replica => replica.leader)?.id;
+  return {
+    topic,
+    partition: partition.id,
+    leader: leaderId === undefined || leaderId < 0 ? null : leaderId,
+    replicas: replicas.map(replica => replica.id),
+    inSync: replicas.filter(replica => replica.inSyncReplicas ?? replica.inSync ?? true).map(replica => replica.id)
+  };
+}
+
+async function topicPartitionHealth(cluster: string, topic: any): Promise<PartitionHealth[]> {
+  const partitions: any[] = topic.partitions?.length
+    ? topic.partitions
+    : await getJson(parameterizeEndpoint('/api/{cluster}/topic/{topicName}/partitions', { cluster, topicName: topic.name }));
+  return partitions.map(partition => partitionHealth(topic.name, partition));
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${Math.round(value * 10) / 10} ${units[unit]}`;
+}
+
+// Cluster health report over nodes, partitions and log dirs
+registerTool(
+  'cluster_health_report',
+  'Report on the health of a cluster: under-replicated partitions, offline or missing leaders, leader imbalance across brokers, disk usage per broker from the log dirs and topics with replication factor 1',
+  {
+    cluster: z.string(),
+    includeInternal: z.boolean().optional().describe('Include internal topics such as __consumer_offsets (default false)'),
+    maxPages: z.number().optional().describe('Maximum number of topic list pages to scan (default 50)')
+  },
+  async (params) => {
+    try {
+      const validatedParams = z.object({
+    cluster: z.string(),
+    includeInternal: z.boolean().optional(),
+    maxPages: z.number().optional()
+  }).parse(params);
+      const { cluster, includeInternal = false, maxPages = 50 } = validatedParams;
+      const nodeInfo = await getJson(parameterizeEndpoint('/api/{cluster}/node', { cluster }));
+      const nodes: any[] = Array.isArray(nodeInfo) ? nodeInfo : nodeInfo?.nodes ?? [];
+      const nodeIds = nodes.map(node => node.id as number);
+      const topicList = await fetchAllPages('/api/{cluster}/topic', { cluster, show: includeInternal ? 'ALL' : 'HIDE_INTERNAL' }, ['show'], maxPages);
+      const topics = topicList.results.filter((topic: any) => includeInternal || !(topic.internal ?? topic.name.startsWith('__')));
+      const partitions: PartitionHealth[] = [];
+      for (const topic of topics) {
+        partitions.push(...await topicPartitionHealth(cluster, topic));
+      }
+
+      const underReplicated = partitions.filter(partition => partition.inSync.length < partition.replicas.length);
+      const leaderless = partitions.filter(partition => partition.leader === null || !nodeIds.includes(partition.leader));
+      const notPreferredLeader = partitions.filter(partition => partition.leader !== null && partition.leader !== partition.replicas[0]);
+      const singleReplicaTopics = [...new Set(partitions.filter(partition => partition.replicas.length === 1).map(partition => partition.topic))];
+
+      const leaders = new Map<number, number>(nodeIds.map(id => [id, 0]));
+      const replicaCounts = new Map<number, number>(nodeIds.map(id => [id, 0]));
+      for (const partition of partitions) {
+        if (partition.leader !== null) {
+          leaders.set(partition.leader, (leaders.get(partition.leader) ?? 0) + 1);
+        }
+        for (const replica of partition.replicas) {
+          replicaCounts.set(replica, (replicaCounts.get(replica) ?? 0) + 1);
+        }
+      }
+      // Partition counts per broker from AKHQ cover all topics, the counts above only the scanned ones.
+      // AKHQ versions without the endpoint answer 404, then the scanned counts are used.
+      const nodePartitions: any[] = await getJson(parameterizeEndpoint('/api/{cluster}/node/partitions', { cluster })).catch(error => {
+        if (error instanceof AkhqApiError && error.status === 404) {
+          return [];
+        }
+        throw error;
+      });
+      for (const nodePartition of nodePartitions ?? []) {
+        if (nodePartition.countLeader !== undefined) {
+          leaders.set(nodePartition.id, nodePartition.countLeader);
+        }
+        if (nodePartition.totalPartitions !== undefined) {
+          replicaCounts.set(nodePartition.id, nodePartition.totalPartitions);
+        }
+      }
+      const totalLeaders = [...leaders.values()].reduce((sum, count) => sum + count, 0);
+      const idealLeaders = nodeIds.length ? totalLeaders / nodeIds.length : 0;
+      // A broker is imbalanced when it leads more than 20% (and at least 2 partitions) more or less than an even share
+      const imbalancedBrokers = [...leaders.entries()].filter(([, count]) => Math.abs(count - idealLeaders) > Math.max(idealLeaders * 0.2, 2));
+
+      const diskRows: any[][] = [];
+      for (const node of nodes) {
+        const logs: any[] = await getJson(parameterizeEndpoint('/api/{cluster}/node/{nodeId}/logs', { cluster, nodeId: node.id }));
+        const byDir = new Map<string, number>();
+        for (const log of logs ?? []) {
+          byDir.set(log.path ?? '-', (byDir.get(log.path ?? '-') ?? 0) + (log.size ?? 0));
+        }
+        const total = [...byDir.values()].reduce((sum, size) => sum + size, 0);
+        diskRows.push([node.id, node.host ?? null, byDir.size ? [...byDir.entries()].map(([dir, size]) => `${dir}: ${formatBytes(size)}`).join(', ') : null, formatBytes(total)]);
+      }
+
+      const issues = [
+        leaderless.length && `${leaderless.length} partition(s) without an online leader`,
+        underReplicated.length && `${underReplicated.length} under-replicated partition(s)`,
+        imbalancedBrokers.length && `leader imbalance on broker(s) ${imbalancedBrokers.map(([id]) => id).join(', ')}`,
+        singleReplicaTopics.length && `${singleReplicaTopics.length} topic(s) with replication factor 1`
+      ].filter(Boolean);
+      const partitionRows = (list: PartitionHealth[]) => list.slice(0, 50).map(partition =>
+        [partition.topic, partition.partition, partition.leader, partition.replicas.join(','), partition.inSync.join(',')]);
+      const text = [
+        `Cluster ${cluster}: ${issues.length ? `DEGRADED - ${issues.join('; ')}` : 'HEALTHY'}`,
+        `${nodes.length} broker(s), ${topics.length} topic(s), ${partitions.length} partition(s)${topicList.truncated ? ` (topic list truncated after ${topicList.pagesFetched} pages)` : ''}; controller: ${nodeInfo?.controller?.id ?? '-'}`,
+        '',
+        '## Brokers',
+        formatTable(
+          ['broker', 'leaders', 'replicas', 'disk by log dir', 'disk total'],
+          nodes.map((node, index) => [node.id, leaders.get(node.id), replicaCounts.get(node.id), diskRows[index][2], diskRows[index][3]])
+        ),
+        `Even leader share: ${Math.round(idealLeaders * 10) / 10} per broker; ${notPreferredLeader.length} partition(s) not led by their preferred replica.`,
+        ...leaderless.length ? ['', '## Partitions without online leader', formatTable(['topic', 'partition', 'leader', 'replicas', 'in sync'], partitionRows(leaderless))] : [],
+        ...underReplicated.length ? ['', '## Under-replicated partitions', formatTable(['topic', 'partition', 'leader', 'replicas', 'in sync'], partitionRows(underReplicated))] : [],
+        ...singleReplicaTopics.length ? ['', '## Topics with replication factor 1', singleReplicaTopics.join(', ')] : []
+      ].join('\n');
+      return {
+        content: [
+          {
+            type: 'text',
+            text
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  }
+);
+
+const topicSpecSchema = z.object({
+  partitions: z.number().optional(),
+  replication: z.number().optional(),
+  configs: z.record(z.union([z.string(), z.number(), z.boolean()])).optional()
+});
+
+// Desired state of topics, either as a list of named topics or as a map from topic name to its spec
+const desiredStateSchema = z.object({
+  topics: z.union([
+    z.array(topicSpecSchema.extend({ name: z.string() })),
+    z.record(topicSpecSchema.nullable())
+  ])
+});
+
+type TopicSpec = z.infer<typeof topicSpecSchema> & { name: string };
+
+// Reads a YAML or JSON desired-state document from a file path or from inline content. A file that cannot be read or
+// a document that is not valid YAML is reported as a validation error of the parameter it came from.
+async function loadDesiredState(path?: string, content?: string): Promise<TopicSpec[]> {
+  const parameter = content === undefined ? 'desiredStatePath' : 'desiredState';
+  const invalid = (message: string) => new z.ZodError([{ code: 'custom', path: [parameter], message }]);
+  const text = content ?? await readFile(path!, 'utf8').catch((error: Error) => {
+    throw invalid(`Cannot read ${path}: ${error.message}`);
+  });
+  let document: unknown;
+  try {
+    document = parseYaml(text);
+  } catch (error) {
+    throw invalid(`Not a valid YAML or JSON document: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const { topics } = desiredStateSchema.parse(document);
+  return Array.isArray(topics)
+    ? topics
+    : Object.entries(topics).map(([name, spec]) => ({ name, ...spec }));
+}
+
+interface LiveConfig {
+  value: string | null;
+  source: string | null;
+  defaultValue: string | null;
+}
+
+interface LiveTopic {
+  name: string;
+  partitions: number;
+  replication: number | null;
+  configs: Map<string, LiveConfig>;
+}
+
+// Topic level overrides have source DYNAMIC_TOPIC_CONFIG, the value they override is the first synonym from another source
+async function liveTopicState(cluster: string, topicName: string): Promise<LiveTopic> {
+  const topic = await getJson(parameterizeEndpoint('/api/{cluster}/topic/{topicName}', { cluster, topicName }));
+  const configs: any[] = await getJson(parameterizeEndpoint('/api/{cluster}/topic/{topicName}/configs', { cluster, topicName }));
+  const partitions = (topic.partitions ?? []).map((partition: any) => partitionHealth(topicName, partition));
+  return {
+    name: topicName,
+    partitions: partitions.length,
+    replication: partitions[0]?.replicas.length ?? null,
+    configs: new Map(configs.map(config => [config.name, {
+      value: config.value ?? null,
+      source: config.source ?? null,
+      defaultValue: (config.synonyms ?? []).find((synonym: any) => synonym.source !== 'DYNAMIC_TOPIC_CONFIG')?.value ?? null
+    }]))
+  };
+}
+
+function isOverride(config: LiveConfig): boolean {
+  return config.source === 'DYNAMIC_TOPIC_CONFIG';
+}
+
+interface TopicDrift {
+  liveNames: string[];
+  missing: TopicSpec[];
+  extra: string[];
+  changes: { topic: string; setting: string; desired: any; actual: any; kind: 'partitions' | 'replication' | 'config' | 'unmanaged override' }[];
+  live: Map<string, LiveTopic>;
+}
+
+// Compares live topics against the desired state. Live topics outside the spec count as extra unless they are internal or ignored.
+async function diffDesiredTopics(cluster: string, specs: TopicSpec[], ignoreTopics: string[] = []): Promise<TopicDrift> {
+  const liveNames: string[] = await getJson(parameterizeEndpoint('/api/{cluster}/topic/name', { cluster, show: 'HIDE_INTERNAL' }, ['show']));
+  const ignored = ignoreTopics.map(globToRegExp);
+  const specNames = new Set(specs.map(spec => spec.name));
+  const drift: TopicDrift = {
+    liveNames,
+    missing: specs.filter(spec => !liveNames.includes(spec.name)),
+    extra: liveNames.filter(name => !specNames.has(name) && !name.startsWith('__') && !ignored.some(pattern => pattern.test(name))),
+    changes: [],
+    live: new Map()
+  };
+  for (const spec of specs.filter(spec => liveNames.includes(spec.name))) {
+    const live = await liveTopicState(cluster, spec.name);
+    drift.live.set(spec.name, live);
+    if (spec.partitions !== undefined && spec.partitions !== live.partitions) {
+      drift.changes.push({ topic: spec.name, setting: 'partitions', desired: spec.partitions, actual: live.partitions, kind: 'partitions' });
+    }
+    if (spec.replication !== undefined && spec.replication !== live.replication) {
+      drift.changes.push({ topic: spec.name, setting: 'replication', desired: spec.replication, actual: live.replication, kind: 'replication' });
+    }
+    const desiredConfigs = spec.configs ?? {};
+    for (const [name, value] of Object.entries(desiredConfigs)) {
+      const actual = live.configs.get(name)?.value ?? null;
+      if (String(value) !== actual) {
+        drift.changes.push({ topic: spec.name, setting: name, desired: String(value), actual, kind: 'config' });
+      }
+    }
+    for (const [name, config] of live.configs) {
+      if (isOverride(config) && !(name in desiredConfigs)) {
+        drift.changes.push({ topic: spec.name, setting: name, desired: config.defaultValue, actual: config.value, kind: 'unmanaged override' });
+      }
+    }
+  }
+  return drift;
+}
+
+// Topic configuration drift against cluster defaults and a desired-state file
+registerTool(
+  'check_topic_drift',
+  'Detect topic configuration drift. Lists the topic configs that override the cluster default, and when a desired-state document (YAML or JSON with topics, partitions, replication and configs) is given, reports missing topics, extra topics and partition, replication and config drift against it',
+  {
+    cluster: z.string(),
+    desiredStatePath: z.string().optional().describe('Path of a YAML or JSON desired-state file'),
+    desiredState: z.string().optional().describe('Inline YAML or JSON desired-state document, e.g. {"topics": [{"name": "orders", "partitions": 6, "replication": 3, "configs": {"retention.ms": "604800000"}}]}'),
+    topics: z.array(z.string()).optional().describe('Topics to list default overrides for, all topics when omitted'),
+    ignoreTopics: z.array(z.string()).optional().describe('Glob patterns of live topics not to report as extra'),
+    maxTopics: z.number().optional().describe('Maximum number of topics to check for default overrides (default 200)')
+  },
+  async (params) => {
+    try {
+      const validatedParams = z.object({
+    cluster: z.string(),
+    desiredStatePath: z.string().optional(),
+    desiredState: z.string().optional(),
+    topics: z.array(z.string()).optional(),
+    ignoreTopics: z.array(z.string()).optional(),
+    maxTopics: z.number().optional()
+  }).parse(params);
+      const { cluster, desiredStatePath, desiredState, ignoreTopics, maxTopics = 200 } = validatedParams;
+      const sections: string[] = [];
+      let live = new Map<string, LiveTopic>();
+      let liveNames: string[] | undefined;
+      if (desiredStatePath || desiredState) {
+        const specs = await loadDesiredState(desiredStatePath, desiredState);
+        const drift = await diffDesiredTopics(cluster, specs, ignoreTopics);
+        live = drift.live;
+        liveNames = drift.liveNames;
+        sections.push(
+          `## Desired state: ${specs.length} topic(s), ${drift.missing.length} missing, ${drift.extra.length} extra, ${drift.changes.length} difference(s)`,
+          drift.missing.length ? `Missing topics: ${drift.missing.map(spec => spec.name).join(', ')}` : 'No missing topics.',
+          drift.extra.length ? `Extra topics: ${drift.extra.join(', ')}` : 'No extra topics.',
+          ...drift.changes.length ? ['', formatTable(['topic', 'setting', 'kind', 'desired', 'actual'], drift.changes.map(change => [change.topic, change.setting, change.kind, change.desired, change.actual]))] : [],
+          ''
+        );
+      }
+      const allNames: string[] = validatedParams.topics ?? liveNames ?? await getJson(parameterizeEndpoint('/api/{cluster}/topic/name', { cluster, show: 'HIDE_INTERNAL' }, ['show']));
+      const names = allNames.slice(0, maxTopics);
+      const overrides: any[][] = [];
+      for (const name of names) {
+        const topic = live.get(name) ?? await liveTopicState(cluster, name);
+        for (const [configName, config] of topic.configs) {
+          if (isOverride(config)) {
+            overrides.push([name, configName, config.value, config.defaultValue]);
+          }
+        }
+      }
+      const defaults = await topicDefaults();
+      sections.push(
+        `## Overrides of cluster defaults in ${names.length} topic(s)${names.length < allNames.length ? ` (limited to the first ${maxTopics} of ${allNames.length})` : ''}`,
+        overrides.length ? formatTable(['topic', 'config', 'value', 'cluster default'], overrides) : 'No topic overrides the cluster defaults.',
+        ...defaults ? ['', `AKHQ defaults for new topics: ${JSON.stringify(defaults)}`] : []
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: sections.join('\n')
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  }
+);
+
+interface TopicStep {
+  action: 'create' | 'update configs' | 'increase partitions';
+  topic: string;
+  details: Record<string, any>;
+  endpoint: string;
+  body: any;
+}
+
+interface TopicPlan {
+  steps: TopicStep[];
+  refused: { topic: string; reason: string }[];
+  unmanagedOverrides: { topic: string; config: string; value: any }[];
+  extraTopics: string[];
+}
+
+// AKHQ's defaults for new topics, undefined on AKHQ versions without the endpoint. Any other failure is an error, as
+// diffing against missing defaults would report drift that is not there.
+async function topicDefaults(): Promise<any> {
+  try {
+    return await getJson('/api/topic/defaults-configs');
+  } catch (error) {
+    if (error instanceof AkhqApiError && error.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+// Turns desired-state drift into ordered steps: creates first, then config updates, then partition increases.
+// Kafka cannot reduce partitions and AKHQ cannot change replication, so such changes are refused instead.
+async function planTopics(cluster: string, specs: TopicSpec[], ignoreTopics?: string[]): Promise<TopicPlan> {
+  const drift = await diffDesiredTopics(cluster, specs, ignoreTopics);
+  const plan: TopicPlan = { steps: [], refused: [], unmanagedOverrides: [], extraTopics: drift.extra };
+  const defaults = drift.missing.some(spec => spec.partitions === undefined || spec.replication === undefined)
+    ? await topicDefaults() ?? {}
+    : {};
+  for (const spec of drift.missing) {
+    const partition = spec.partitions ?? defaults.partition;
+    const replication = spec.replication ?? defaults.replication;
+    if (partition === undefined || replication === undefined) {
+      plan.refused.push({ topic: spec.name, reason: 'partitions and replication are required to create the topic' });
+      continue;
+    }
+    const configs = Object.fromEntries(Object.entries(spec.configs ?? {}).map(([name, value]) => [name, String(value)]));
+    plan.steps.push({
+      action: 'create',
+      topic: spec.name,
+      details: { partitions: partition, replication, configs },
+      endpoint: parameterizeEndpoint('/api/{cluster}/topic', { cluster }),
+      body: { name: spec.name, partition, replication, configs }
+    });
+  }
+  const configUpdates = new Map<string, Record<string, string>>();
+  for (const change of drift.changes) {
+    switch (change.kind) {
+      case 'config':
+        configUpdates.set(change.topic, { ...configUpdates.get(change.topic), [change.setting]: change.desired });
+        break;
+      case 'unmanaged override':
+        plan.unmanagedOverrides.push({ topic: change.topic, config: change.setting, value: change.actual });
+        break;
+      case 'replication':
+        plan.refused.push({ topic: change.topic, reason: `replication cannot be changed from ${change.actual} to ${change.desired}` });
+        break;
+      case 'partitions':
+        if (change.desired < change.actual) {
+          plan.refused.push({ topic: change.topic, reason: `partitions cannot be reduced from ${change.actual} to ${change.desired}` });
+        }
+        break;
+    }
+  }
+  for (const [topic, configs] of configUpdates) {
+    plan.steps.push({
+      action: 'update configs',
+      topic,
+      details: { configs },
+      endpoint: parameterizeEndpoint('/api/{cluster}/topic/{topicName}/configs', { cluster, topicName: topic }),
+      body: { configs }
+    });
+  }
+  for (const change of drift.changes.filter(change => change.kind === 'partitions' && change.desired > change.actual)) {
+    plan.steps.push({
+      action: 'increase partitions',
+      topic: change.topic,
+      details: { from: change.actual, to: change.desired },
+      endpoint: parameterizeEndpoint('/api/{cluster}/topic/{topicName}/partitions', { cluster, topicName: change.topic }),
+      body: { partition: change.desired }
+    });
+  }
+  return plan;
+}
+
+function describePlan(plan: TopicPlan) {
+  return {
+    steps: plan.steps.map(({ action, topic, details }) => ({ action, topic, ...details })),
+    refused: plan.refused,
+    unmanagedOverrides: plan.unmanagedOverrides,
+    extraTopics: plan.extraTopics
+  };
+}
+
+const topicPlanSchema = z.object({
+  cluster: z.string(),
+  desiredStatePath: z.string().optional(),
+  desiredState: z.string().optional(),
+  ignoreTopics: z.array(z.string()).optional()
+}).refine(params => params.desiredStatePath || params.desiredState, { message: 'desiredStatePath or desiredState is required' });
+
+const topicPlanParameters = {
+  cluster: z.string(),
+  desiredStatePath: z.string().optional().describe('Path of a YAML or JSON desired-state file'),
+  desiredState: z.string().optional().describe('Inline YAML or JSON desired-state document, e.g. {"topics": [{"name": "orders", "partitions": 6, "replication": 3, "configs": {"retention.ms": "604800000"}}]}'),
+  ignoreTopics: z.array(z.string()).optional().describe('Glob patterns of live topics not to report as extra')
+};
+
+async function planFromParams(params: any): Promise<TopicPlan> {
+  const { cluster, desiredStatePath, desiredState, ignoreTopics } = topicPlanSchema.parse(params);
+  return planTopics(cluster, await loadDesiredState(desiredStatePath, desiredState), ignoreTopics);
+}
+
+// What an apply_topics confirmation is for: the loaded document and the plan made from it, not just the file path
+async function topicPlanState(params: any) {
+  const { cluster, desiredStatePath, desiredState, ignoreTopics } = topicPlanSchema.parse(params);
+  const specs = await loadDesiredState(desiredStatePath, desiredState);
+  const { steps, refused } = await planTopics(cluster, specs, ignoreTopics);
+  return { specs, steps, refused };
+}
+
+// Declarative topic plan
+registerTool(
+  'plan_topics',
+  'Compute the changes needed to bring topics in line with a desired-state document: topic creations, config updates and partition increases. Impossible changes such as reducing partitions or changing replication are listed as refused. Nothing is changed; use apply_topics to apply the plan',
+  topicPlanParameters,
+  async (params) => {
+    try {
+      const plan = await planFromParams(params);
+      const text = [
+        `Plan: ${plan.steps.filter(step => step.action === 'create').length} to create, ${plan.steps.filter(step => step.action !== 'create').length} to change, ${plan.refused.length} refused.`,
+        '',
+        plan.steps.length
+          ? formatTable(['#', 'action', 'topic', 'details'], plan.steps.map((step, index) => [index + 1, step.action, step.topic, JSON.stringify(step.details)]))
+          : 'No changes. Topics match the desired state.',
+        ...plan.refused.length ? ['', '## Refused', formatTable(['topic', 'reason'], plan.refused.map(({ topic, reason }) => [topic, reason]))] : [],
+        ...plan.unmanagedOverrides.length ? ['', '## Overrides not in the desired state (left unchanged)', formatTable(['topic', 'config', 'value'], plan.unmanagedOverrides.map(({ topic, config, value }) => [topic, config, value]))] : [],
+        ...plan.extraTopics.length ? ['', `Topics not in the desired state (left unchanged): ${plan.extraTopics.join(', ')}`] : []
+      ].join('\n');
+      return {
+        content: [
+          {
+            type: 'text',
+            text
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  }
+);
+
+// Declarative topic apply
+registerTool(
+  'apply_topics',
+  'Apply the plan computed by plan_topics for a desired-state document. Steps run in order (creations, config updates, partition increases) and stop at the first failure. Refused changes are never applied. Returns the result of every step',
+  topicPlanParameters,
+  async (params) => {
+    try {
+      const plan = await planFromParams(params);
+      const results: { step: number; action: string; topic: string; status: 'applied' | 'failed' | 'skipped'; error?: object }[] = [];
+      let failed = false;
+      for (const [index, step] of plan.steps.entries()) {
+        const result = { step: index + 1, action: step.action, topic: step.topic };
+        if (failed) {
+          results.push({ ...result, status: 'skipped' });
+          continue;
+        }
+        try {
+          await callApi(step.endpoint, 'POST', step.body, 'application/json');
+          results.push({ ...result, status: 'applied' });
+        } catch (error) {
+          if (!(error instanceof AkhqApiError)) {
+            throw error;
+          }
+          failed = true;
+          results.push({ ...result, status: 'failed', error: error.toJSON() });
+        }
+      }
+      return {
+        isError: failed,
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ results, refused: plan.refused, unmanagedOverrides: plan.unmanagedOverrides })
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  },
+  async (params) => describePlan(await planFromParams(params)),
+  topicPlanState
+);
+
+// Runs fn against another AKHQ instance, keeping the request log of the current tool call
+function withInstance<T>(instance: AkhqInstance, fn: () => Promise<T>): Promise<T> {
+  return requestContext.run({ requests: [], executed: false, ...requestContext.getStore(), instance }, fn);
+}
+
+const COMPARE_SECTIONS = ['topics', 'acls', 'schemas', 'connectors'] as const;
+const COMPARE_SECTION_TITLES: Record<string, string> = { topics: 'Topics', acls: 'ACLs', schemas: 'Schemas', connectors: 'Connectors' };
+
+interface ClusterSnapshot {
+  label: string;
+  topicNames?: string[];
+  topics?: Map<string, LiveTopic>;
+  acls?: Set<string>;
+  schemas?: Map<string, { version: number | null; schema: string }>;
+  connectors?: Map<string, { connectId: string; configs: Record<string, any> }>;
+  errors: Map<string, string>;
+  limits: Map<string, string[]>; // Sections that were only partly read, with the reason
+}
+
+function aclEntries(accessControls: any[]): string[] {
+  return accessControls.flatMap(accessControl => (accessControl.acls ?? []).map((acl: any) => {
+    const resource = acl.resource ?? {};
+    const operation = acl.operation ?? {};
+    return `${accessControl.principal} ${operation.permissionType ?? '?'} ${operation.operation ?? '?'} on ${resource.resourceType ?? '?'}:${resource.patternType ?? '?'}:${resource.name ?? '?'} from ${acl.host ?? '*'}`;
+  }));
+}
+
+// A section that cannot be read, e.g. ACLs on a cluster without an authorizer, is recorded as an error instead of failing the comparison
+async function loadSection(snapshot: ClusterSnapshot, section: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+  } catch (error) {
+    if (!(error instanceof AkhqApiError)) {
+      throw error;
+    }
+    snapshot.errors.set(section, error.akhqMessage);
+  }
+}
+
+function addLimit(snapshot: ClusterSnapshot, section: string, message: string) {
+  snapshot.limits.set(section, [...snapshot.limits.get(section) ?? [], message]);
+}
+
+// Collects the comparable state of one cluster. Only the topic names are listed here, the details of the topics selected
+// from both clusters are read by loadSnapshotTopics.
+async function clusterSnapshot(cluster: string, sections: string[], topicPatterns: string[] | undefined): Promise<ClusterSnapshot> {
+  const snapshot: ClusterSnapshot = { label: `${currentInstance().name}/${cluster}`, errors: new Map(), limits: new Map() };
+  const load = async (section: string, fn: () => Promise<void>) => {
+    if (sections.includes(section)) {
+      await loadSection(snapshot, section, fn);
+    }
+  };
+  await load('topics', async () => {
+    const patterns = topicPatterns?.map(globToRegExp);
+    const names: string[] = await getJson(parameterizeEndpoint('/api/{cluster}/topic/name', { cluster, show: 'HIDE_INTERNAL' }, ['show']));
+    snapshot.topicNames = names.filter(name => !patterns || patterns.some(pattern => pattern.test(name)));
+  });
+  await load('acls', async () => {
+    snapshot.acls = new Set(aclEntries(await getJson(parameterizeEndpoint('/api/{cluster}/acls', { cluster }))));
+  });
+  await load('schemas', async () => {
+    const { results, truncated } = await fetchAllPages('/api/{cluster}/schema', { cluster }, [], 50);
+    if (truncated) {
+      addLimit(snapshot, 'schemas', `Only the first 50 pages of subjects were read on ${snapshot.label}, subjects beyond them are not compared.`);
+    }
+    snapshot.schemas = new Map(results.map((schema: any) => [schema.subject, { version: schema.version ?? null, schema: schema.schema ?? '' }]));
+  });
+  await load('connectors', async () => {
+    const clusters: any[] = await getJson('/api/cluster');
+    const connectIds: string[] = (clusters.find(entry => entry.id === cluster)?.connects ?? []).map((connect: any) => typeof connect === 'string' ? connect : connect.name);
+    snapshot.connectors = new Map();
+    for (const connectId of connectIds) {
+      const { results, truncated } = await fetchAllPages('/api/{cluster}/connect/{connectId}', { cluster, connectId }, [], 50);
+      if (truncated) {
+        addLimit(snapshot, 'connectors', `Only the first 50 pages of connectors of ${connectId} were read on ${snapshot.label}, connectors beyond them are not compared.`);
+      }
+      for (const connector of results) {
+        const { name, ...configs } = connector.configs ?? {};
+        snapshot.connectors.set(connector.name, { connectId, configs: sanitizeForAudit(configs) });
+      }
+    }
+  });
+  return snapshot;
+}
+
+// Reads the details of the selected topics that exist on the cluster of the snapshot
+async function loadSnapshotTopics(snapshot: ClusterSnapshot, cluster: string, selected: string[]) {
+  const names = snapshot.topicNames;
+  if (!names) {
+    return;
+  }
+  await loadSection(snapshot, 'topics', async () => {
+    snapshot.topics = new Map();
+    for (const name of selected.filter(name => names.includes(name))) {
+      snapshot.topics.set(name, await liveTopicState(cluster, name));
+    }
+  });
+}
+
+function onlyIn(source: Iterable<string>, target: { has(key: string): boolean }): string[] {
+  return [...source].filter(key => !target.has(key)).sort();
+}
+
+function compareSnapshots(source: ClusterSnapshot, target: ClusterSnapshot, sections: string[]): string[] {
+  const lines = [`# ${source.label} compared with ${target.label}`, ''];
+  const presence = (sourceOnly: string[], targetOnly: string[], noun: string) => [
+    sourceOnly.length ? `Only in ${source.label}: ${sourceOnly.join(', ')}` : `No ${noun} only in ${source.label}.`,
+    targetOnly.length ? `Only in ${target.label}: ${targetOnly.join(', ')}` : `No ${noun} only in ${target.label}.`
+  ];
+  for (const section of sections) {
+    const error = source.errors.get(section) ?? target.errors.get(section);
+    if (error) {
+      lines.push(`## ${COMPARE_SECTION_TITLES[section]}`, `Not compared: ${error}`, '');
+      continue;
+    }
+    const limits = [...new Set([...source.limits.get(section) ?? [], ...target.limits.get(section) ?? []])];
+    if (section === 'topics' && source.topics && target.topics) {
+      const rows: any[][] = [];
+      for (const [name, sourceTopic] of source.topics) {
+        const targetTopic = target.topics.get(name);
+        if (!targetTopic) {
+          continue;
+        }
+        if (sourceTopic.partitions !== targetTopic.partitions) {
+          rows.push([name, 'partitions', sourceTopic.partitions, targetTopic.partitions]);
+        }
+        if (sourceTopic.replication !== targetTopic.replication) {
+          rows.push([name, 'replication', sourceTopic.replication, targetTopic.replication]);
+        }
+        for (const configName of new Set([...sourceTopic.configs.keys(), ...targetTopic.configs.keys()])) {
+          const sourceValue = sourceTopic.configs.get(configName)?.value ?? null;
+          const targetValue = targetTopic.configs.get(configName)?.value ?? null;
+          if (sourceValue !== targetValue) {
+            rows.push([name, configName, sourceValue, targetValue]);
+          }
+        }
+      }
+      const sourceOnly = onlyIn(source.topics.keys(), target.topics);
+      const targetOnly = onlyIn(target.topics.keys(), source.topics);
+      lines.push(
+        `## Topics: ${sourceOnly.length + targetOnly.length} only on one side, ${rows.length} difference(s)`,
+        ...limits,
+        ...presence(sourceOnly, targetOnly, 'topics'),
+        ...rows.length ? ['', formatTable(['topic', 'setting', source.label, target.label], rows)] : [],
+        ''
+      );
+    }
+    if (section === 'acls' && source.acls && target.acls) {
+      const sourceOnly = onlyIn(source.acls, target.acls);
+      const targetOnly = onlyIn(target.acls, source.acls);
+      lines.push(
+        `## ACLs: ${sourceOnly.length + targetOnly.length} only on one side`,
+        ...sourceOnly.length || targetOnly.length
+          ? [formatTable(['ACL', 'only in'], [...sourceOnly.map(acl => [acl, source.label]), ...targetOnly.map(acl => [acl, target.label])])]
+          : ['ACLs are identical.'],
+        ''
+      );
+    }
+    if (section === 'schemas' && source.schemas && target.schemas) {
+      const rows: any[][] = [];
+      for (const [subject, sourceSchema] of source.schemas) {
+        const targetSchema = target.schemas.get(subject);
+        if (targetSchema && (sourceSchema.version !== targetSchema.version || sourceSchema.schema !== targetSchema.schema)) {
+          rows.push([subject, sourceSchema.version, targetSchema.version, sourceSchema.schema === targetSchema.schema ? 'same' : 'different']);
+        }
+      }
+      const sourceOnly = onlyIn(source.schemas.keys(), target.schemas);
+      const targetOnly = onlyIn(target.schemas.keys(), source.schemas);
+      lines.push(
+        `## Schemas: ${sourceOnly.length + targetOnly.length} subject(s) only on one side, ${rows.length} difference(s)`,
+        ...limits,
+        ...presence(sourceOnly, targetOnly, 'subjects'),
+        ...rows.length ? ['', formatTable(['subject', `${source.label} latest version`, `${target.label} latest version`, 'latest schema'], rows)] : [],
+        ''
+      );
+    }
+    if (section === 'connectors' && source.connectors && target.connectors) {
+      const rows: any[][] = [];
+      for (const [name, sourceConnector] of source.connectors) {
+        const targetConnector = target.connectors.get(name);
+        if (!targetConnector) {
+          continue;
+        }
+        for (const configName of new Set([...Object.keys(sourceConnector.configs), ...Object.keys(targetConnector.configs)])) {
+          const sourceValue = sourceConnector.configs[configName] ?? null;
+          const targetValue = targetConnector.configs[configName] ?? null;
+          if (sourceValue !== targetValue) {
+            rows.push([name, configName, sourceValue, targetValue]);
+          }
+        }
+      }
+      const sourceOnly = onlyIn(source.connectors.keys(), target.connectors);
+      const targetOnly = onlyIn(target.connectors.keys(), source.connectors);
+      lines.push(
+        `## Connectors: ${sourceOnly.length + targetOnly.length} only on one side, ${rows.length} config difference(s)`,
+        ...limits,
+        ...presence(sourceOnly, targetOnly, 'connectors'),
+        ...rows.length ? ['', formatTable(['connector', 'config', source.label, target.label], rows)] : [],
+        ''
+      );
+    }
+  }
+  return lines;
+}
+
+// Cross-cluster comparison
+registerTool(
+  'compare_clusters',
+  'Compare two clusters, on the same or on different AKHQ instances, e.g. staging against prod. Reports topics, partition counts, replication and topic configs, ACLs, schema subjects and latest versions, and connector configs that differ or exist on one side only',
+  {
+    cluster: z.string(),
+    targetCluster: z.string().optional().describe('Cluster to compare with, the default cluster of the target instance when omitted'),
+    targetInstance: z.string().optional().describe('AKHQ instance of the target cluster, the instance of the source cluster when omitted'),
+    sections: z.array(z.enum(COMPARE_SECTIONS)).optional().describe('What to compare, all sections when omitted'),
+    topics: z.array(z.string()).optional().describe('Glob patterns of the topics to compare, all topics when omitted'),
+    maxTopics: z.number().optional().describe('Maximum number of topics to compare, taken in name order from the topics of both clusters (default 200)')
+  },
+  async (params) => {
+    try {
+      const validatedParams = z.object({
+    cluster: z.string(),
+    targetCluster: z.string().optional(),
+    targetInstance: z.string().optional(),
+    sections: z.array(z.enum(COMPARE_SECTIONS)).optional(),
+    topics: z.array(z.string()).optional(),
+    maxTopics: z.number().optional()
+  }).parse(params);
+      const { cluster, targetInstance, sections = [...COMPARE_SECTIONS], topics, maxTopics = 200 } = validatedParams;
+      const target = targetInstance ? getInstance(targetInstance, 'targetInstance') : currentInstance();
+      const targetCluster = validatedParams.targetCluster ?? target.defaultCluster;
+      if (!targetCluster) {
+        throw new z.ZodError([{ code: 'custom', path: ['targetCluster'], message: `targetCluster is required, instance ${target.name} has no default cluster` }]);
+      }
+      const source = await clusterSnapshot(cluster, sections, topics);
+      const other = await withInstance(target, () => clusterSnapshot(targetCluster, sections, topics));
+      // Both clusters compare the same topics, so a topic past the limit on one side is not reported as missing on the other
+      const allNames = [...new Set([...source.topicNames ?? [], ...other.topicNames ?? []])].sort();
+      const selected = allNames.slice(0, maxTopics);
+      if (selected.length < allNames.length) {
+        const message = `Limited to the first ${maxTopics} of ${allNames.length} topic names of both clusters, raise maxTopics to compare the rest.`;
+        addLimit(source, 'topics', message);
+        addLimit(other, 'topics', message);
+      }
+      await loadSnapshotTopics(source, cluster, selected);
+      await withInstance(target, () => loadSnapshotTopics(other, targetCluster, selected));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: compareSnapshots(source, other, sections).join('\n')
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  }
+);
+
+// Schema compatibility. Each check asks whether data written with the writer schema can be read with the reader schema
+// and collects an explanation for every breaking difference.
+interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+interface SchemaLabels {
+  reader: string;
+  writer: string;
+}
+
+const AVRO_PRIMITIVES = ['null', 'boolean', 'int', 'long', 'float', 'double', 'bytes', 'string'];
+const AVRO_PROMOTIONS: Record<string, string[]> = {
+  int: ['long', 'float', 'double'],
+  long: ['float', 'double'],
+  float: ['double'],
+  string: ['bytes'],
+  bytes: ['string']
+};
+
+interface AvroSchema {
+  root: any;
+  names: Map<string, any>; // Named types (records, enums, fixed) by full name, including those of referenced schemas
+}
+
+function avroFullName(name: string, namespace?: string): string {
+  return name.includes('.') || !namespace ? name : `${namespace}.${name}`;
+}
+
+function avroNamespace(schema: any, namespace?: string): string | undefined {
+  return schema.name?.includes('.') ? schema.name.slice(0, schema.name.lastIndexOf('.')) : schema.namespace ?? namespace;
+}
+
+function collectAvroNames(schema: any, namespace: string | undefined, names: Map<string, any>) {
+  if (Array.isArray(schema)) {
+    schema.forEach(branch => collectAvroNames(branch, namespace, names));
+  } else if (schema && typeof schema === 'object') {
+    if (typeof schema.type === 'object') {
+      collectAvroNames(schema.type, namespace, names);
+      return;
+    }
+    const childNamespace = avroNamespace(schema, namespace);
+    if (schema.name && ['record', 'error', 'enum', 'fixed'].includes(schema.type)) {
+      names.set(avroFullName(schema.name, childNamespace), { ...schema, namespace: childNamespace });
+    }
+    (schema.fields ?? []).forEach((field: any) => collectAvroNames(field.type, childNamespace, names));
+    collectAvroNames(schema.items, childNamespace, names);
+    collectAvroNames(schema.values, childNamespace, names);
+  }
+}
+
+function parseAvroSchema(text: string, references: AvroSchema[] = []): AvroSchema {
+  const root = JSON.parse(text);
+  const names = new Map<string, any>();
+  references.forEach(reference => reference.names.forEach((definition, name) => names.set(name, definition)));
+  collectAvroNames(root, undefined, names);
+  return { root, names };
+}
+
+// Resolves name references and the {"type": ...} wrapper, so the result is a primitive name, a union array or a complex type object
+function resolveAvro(schema: any, namespace: string | undefined, names: Map<string, any>): { type: any; namespace?: string } {
+  if (typeof schema === 'string') {
+    if (AVRO_PRIMITIVES.includes(schema)) {
+      return { type: schema, namespace };
+    }
+    const definition = names.get(avroFullName(schema, namespace)) ?? names.get(schema);
+    return definition ? { type: definition, namespace: definition.namespace } : { type: { type: 'unresolved', name: avroFullName(schema, namespace) }, namespace };
+  }
+  if (schema && typeof schema === 'object' && !Array.isArray(schema)) {
+    if (typeof schema.type === 'string' && AVRO_PRIMITIVES.includes(schema.type)) {
+      return { type: schema.type, namespace };
+    }
+    if (typeof schema.type === 'object' || !['record', 'error', 'enum', 'fixed', 'array', 'map', 'unresolved'].includes(schema.type)) {
+      return resolveAvro(schema.type, namespace, names);
+    }
+    if (schema.name && ['record', 'error', 'enum', 'fixed'].includes(schema.type)) {
+      const childNamespace = avroNamespace(schema, namespace);
+      return { type: names.get(avroFullName(schema.name, childNamespace)) ?? schema, namespace: childNamespace };
+    }
+  }
+  return { type: schema, namespace };
+}
+
+function avroTypeName(type: any): string {
+  if (typeof type === 'string') {
+    return type;
+  }
+  if (Array.isArray(type)) {
+    return `union [${type.map(avroTypeName).join(', ')}]`;
+  }
+  if (type.type === 'array') {
+    return 'array';
+  }
+  if (type.type === 'map') {
+    return 'map';
+  }
+  return type.name ? `${type.type} ${avroFullName(type.name, type.namespace)}` : String(type.type);
+}
+
+function avroKind(type: any): string {
+  return typeof type === 'string' ? type : Array.isArray(type) ? 'union' : type.type === 'error' ? 'record' : type.type;
+}
+
+// Avro schema resolution rules: https://avro.apache.org/docs/current/specification/#schema-resolution
+function checkAvro(
+  reader: { type: any; namespace?: string },
+  writer: { type: any; namespace?: string },
+  context: { readerNames: Map<string, any>; writerNames: Map<string, any>; labels: SchemaLabels; seen: Set<string> },
+  path: string,
+  issues: SchemaIssue[]
+) {
+  const { labels } = context;
+  const resolvedReader = resolveAvro(reader.type, reader.namespace, context.readerNames);
+  const resolvedWriter = resolveAvro(writer.type, writer.namespace, context.writerNames);
+  const readerType = resolvedReader.type;
+  const writerType = resolvedWriter.type;
+  const readerKind = avroKind(readerType);
+  const writerKind = avroKind(writerType);
+  if (writerKind === 'union') {
+    writerType.forEach((branch: any) => checkAvro(resolvedReader, { type: branch, namespace: resolvedWriter.namespace }, context, path, issues));
+    return;
+  }
+  if (readerKind === 'union') {
+    const matches = readerType.some((branch: any) => {
+      const branchIssues: SchemaIssue[] = [];
+      checkAvro({ type: branch, namespace: resolvedReader.namespace }, resolvedWriter, { ...context, seen: new Set(context.seen) }, path, branchIssues);
+      return branchIssues.length === 0;
+    });
+    if (!matches) {
+      issues.push({ path, message: `${avroTypeName(writerType)} in ${labels.writer} matches no branch of ${avroTypeName(readerType)} in ${labels.reader}` });
+    }
+    return;
+  }
+  if (readerKind === 'unresolved' || writerKind === 'unresolved') {
+    if (readerType.name !== writerType.name) {
+      issues.push({ path, message: `type changed from ${avroTypeName(writerType)} in ${labels.writer} to ${avroTypeName(readerType)} in ${labels.reader}` });
+    }
+    return;
+  }
+  if (readerKind !== writerKind) {
+    if (!(AVRO_PROMOTIONS[writerKind] ?? []).includes(readerKind)) {
+      issues.push({ path, message: `type changed from ${avroTypeName(writerType)} in ${labels.writer} to ${avroTypeName(readerType)} in ${labels.reader}, which cannot read it` });
+    }
+    return;
+  }
+  if (['record', 'enum', 'fixed'].includes(readerKind)) {
+    const readerName = avroFullName(readerType.name, resolvedReader.namespace);
+    const writerName = avroFullName(writerType.name, resolvedWriter.namespace);
+    const aliases = (readerType.aliases ?? []).map((alias: string) => avroFullName(alias, resolvedReader.namespace));
+    if (readerName.split('.').pop() !== writerName.split('.').pop() && !aliases.includes(writerName)) {
+      issues.push({ path, message: `${readerKind} ${writerName} in ${labels.writer} was renamed to ${readerName} in ${labels.reader} without an alias` });
+      return;
+    }
+    if (context.seen.has(`${readerName}|${writerName}`)) {
+      return;
+    }
+    context.seen.add(`${readerName}|${writerName}`);
+  }
+  switch (readerKind) {
+    case 'record':
+      for (const field of readerType.fields ?? []) {
+        const writerField = (writerType.fields ?? []).find((candidate: any) => candidate.name === field.name || (field.aliases ?? []).includes(candidate.name));
+        const fieldPath = path ? `${path}.${field.name}` : field.name;
+        if (writerField) {
+          checkAvro({ type: field.type, namespace: resolvedReader.namespace }, { type: writerField.type, namespace: resolvedWriter.namespace }, context, fieldPath, issues);
+        } else if (!('default' in field)) {
+          issues.push({ path: fieldPath, message: `field exists in ${labels.reader} without a default but not in ${labels.writer}` });
+        }
+      }
+      break;
+    case 'enum': {
+      const missing = (writerType.symbols ?? []).filter((symbol: string) => !(readerType.symbols ?? []).includes(symbol));
+      if (missing.length && readerType.default === undefined) {
+        issues.push({ path, message: `symbol(s) ${missing.join(', ')} of ${labels.writer} are missing in ${labels.reader}, which has no enum default` });
+      }
+      break;
+    }
+    case 'fixed':
+      if (readerType.size !== writerType.size) {
+        issues.push({ path, message: `fixed size changed from ${writerType.size} in ${labels.writer} to ${readerType.size} in ${labels.reader}` });
+      }
+      break;
+    case 'array':
+      checkAvro({ type: readerType.items, namespace: resolvedReader.namespace }, { type: writerType.items, namespace: resolvedWriter.namespace }, context, `${path}[]`, issues);
+      break;
+    case 'map':
+      checkAvro({ type: readerType.values, namespace: resolvedReader.namespace }, { type: writerType.values, namespace: resolvedWriter.namespace }, context, `${path}{}`, issues);
+      break;
+  }
+}
+
+interface ProtoField {
+  name: string;
+  number: number;
+  type: string;
+  label: string; // repeated, optional, required or '' for proto3 singular fields
+  map?: boolean;
+  oneof?: string;
+}
+
+interface ProtoSchema {
+  package: string;
+  messages: Map<string, ProtoField[]>; // By name relative to the package, e.g. Order.Line
+  enums: Map<string, string[]>;
+}
+
+const PROTO_SCALARS = ['double', 'float', 'int32', 'int64', 'uint32', 'uint64', 'sint32', 'sint64', 'fixed32', 'fixed64', 'sfixed32', 'sfixed64', 'bool', 'string', 'bytes'];
+// Scalar types that share a wire encoding, so changing between them does not break parsing
+const PROTO_WIRE_GROUPS = [['int32', 'uint32', 'int64', 'uint64', 'bool'], ['sint32', 'sint64'], ['fixed32', 'sfixed32'], ['fixed64', 'sfixed64'], ['string', 'bytes']];
+
+// Minimal .proto parser for the message structure relevant to compatibility: messages, fields, oneofs, maps and enums
+function parseProtoSchema(text: string): ProtoSchema {
+  const tokens = text.match(/\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[\w.]+|[^\s\w]/g)?.filter(token => !token.startsWith('//') && !token.startsWith('/*')) ?? [];
+  const schema: ProtoSchema = { package: '', messages: new Map(), enums: new Map() };
+  let position = 0;
+  const next = () => tokens[position++];
+  const peek = () => tokens[position];
+  const skipStatement = () => {
+    let depth = 0;
+    while (position < tokens.length) {
+      const token = next();
+      if (token === '{') {
+        depth++;
+      } else if (token === '}') {
+        if (--depth <= 0) {
+          return;
+        }
+      } else if (token === ';' && depth === 0) {
+        return;
+      }
+    }
+  };
+  const skipOptions = () => {
+    if (peek() === '[') {
+      while (position < tokens.length && next() !== ']');
+    }
+  };
+  const parseEnum = (scope: string) => {
+    const name = scope ? `${scope}.${next()}` : next();
+    const symbols: string[] = [];
+    next();
+    while (position < tokens.length && peek() !== '}') {
+      if (['option', 'reserved'].includes(peek())) {
+        skipStatement();
+        continue;
+      }
+      symbols.push(next());
+      skipStatement();
+    }
+    next();
+    schema.enums.set(name, symbols);
+  };
+  const parseField = (fields: ProtoField[], oneof?: string) => {
+    let label = '';
+    if (['repeated', 'optional', 'required'].includes(peek())) {
+      label = next();
+    }
+    let type = next();
+    let map = false;
+    if (type === 'map') {
+      const keyType = (next(), next());
+      const valueType = (next(), next());
+      next();
+      type = `map<${keyType}, ${valueType}>`;
+      map = true;
+    }
+    const name = next();
+    next();
+    const number = Number(next());
+    skipOptions();
+    next();
+    fields.push({ name, number, type, label, ...map ? { map } : {}, ...oneof ? { oneof } : {} });
+  };
+  const parseMessage = (scope: string) => {
+    const name = scope ? `${scope}.${next()}` : next();
+    const fields: ProtoField[] = [];
+    schema.messages.set(name, fields);
+    next();
+    while (position < tokens.length && peek() !== '}') {
+      const token = peek();
+      if (token === 'message') {
+        next();
+        parseMessage(name);
+      } else if (token === 'enum') {
+        next();
+        parseEnum(name);
+      } else if (token === 'oneof') {
+        next();
+        const oneof = next();
+        next();
+        while (position < tokens.length && peek() !== '}') {
+          if (peek() === 'option') {
+            skipStatement();
+          } else {
+            parseField(fields, oneof);
+          }
+        }
+        next();
+      } else if (['option', 'reserved', 'extensions', 'extend', 'group'].includes(token) || token === ';') {
+        skipStatement();
+      } else {
+        parseField(fields);
+      }
+    }
+    next();
+  };
+  while (position < tokens.length) {
+    const token = next();
+    if (token === 'package') {
+      schema.package = next();
+      skipStatement();
+    } else if (token === 'message') {
+      parseMessage('');
+    } else if (token === 'enum') {
+      parseEnum('');
+    } else if (token !== ';') {
+      position--;
+      skipStatement();
+    }
+  }
+  // Resolve field types relative to the enclosing message scopes
+  for (const [messageName, fields] of schema.messages) {
+    for (const field of fields) {
+      if (PROTO_SCALARS.includes(field.type) || field.map) {
+        continue;
+      }
+      const typeName = field.type.startsWith('.') ? field.type.slice(1).replace(new RegExp(`^${schema.package.replace(/\./g, '\\.')}\\.`), '') : field.type;
+      const scopes = messageName.split('.').map((_, index, parts) => parts.slice(0, parts.length - index).join('.'));
+      field.type = [...scopes.map(scope => `${scope}.${typeName}`), typeName].find(candidate => schema.messages.has(candidate) || schema.enums.has(candidate)) ?? typeName;
+    }
+  }
+  return schema;
+}
+
+function protoKind(schema: ProtoSchema, type: string): string {
+  if (PROTO_SCALARS.includes(type)) {
+    return 'scalar';
+  }
+  if (type.startsWith('map<')) {
+    return 'map';
+  }
+  return schema.enums.has(type) ? 'enum' : 'message';
+}
+
+// Protobuf compatibility follows the rules of Confluent Schema Registry: fields are matched by number
+function checkProto(reader: ProtoSchema, writer: ProtoSchema, labels: SchemaLabels, issues: SchemaIssue[]) {
+  if (reader.package !== writer.package) {
+    issues.push({ path: '', message: `package changed from ${writer.package || '(none)'} in ${labels.writer} to ${reader.package || '(none)'} in ${labels.reader}` });
+  }
+  for (const [messageName, writerFields] of writer.messages) {
+    const readerFields = reader.messages.get(messageName);
+    if (!readerFields) {
+      issues.push({ path: messageName, message: `message exists in ${labels.writer} but not in ${labels.reader}` });
+      continue;
+    }
+    for (const readerField of readerFields) {
+      const path = `${messageName}.${readerField.name}`;
+      const writerField = writerFields.find(field => field.number === readerField.number);
+      if (!writerField) {
+        if (readerField.label === 'required') {
+          issues.push({ path, message: `required field ${readerField.number} exists in ${labels.reader} but not in ${labels.writer}` });
+        }
+        continue;
+      }
+      const readerKind = protoKind(reader, readerField.type);
+      const writerKind = protoKind(writer, writerField.type);
+      if (readerKind !== writerKind) {
+        issues.push({ path, message: `field ${readerField.number} changed from ${writerKind} ${writerField.type} in ${labels.writer} to ${readerKind} ${readerField.type} in ${labels.reader}` });
+      } else if (readerField.type !== writerField.type
+        && !(readerKind === 'scalar' && PROTO_WIRE_GROUPS.some(group => group.includes(readerField.type) && group.includes(writerField.type)))) {
+        issues.push({ path, message: `field ${readerField.number} changed type from ${writerField.type} in ${labels.writer} to ${readerField.type} in ${labels.reader}` });
+      }
+      if ((readerField.label === 'repeated') !== (writerField.label === 'repeated')) {
+        issues.push({ path, message: `field ${readerField.number} is ${writerField.label === 'repeated' ? 'repeated' : 'singular'} in ${labels.writer} but ${readerField.label === 'repeated' ? 'repeated' : 'singular'} in ${labels.reader}` });
+      }
+    }
+    const movedIntoOneof = new Map<string, number[]>();
+    for (const readerField of readerFields.filter(field => field.oneof)) {
+      const writerField = writerFields.find(field => field.number === readerField.number);
+      if (writerField && !writerField.oneof) {
+        movedIntoOneof.set(readerField.oneof!, [...movedIntoOneof.get(readerField.oneof!) ?? [], readerField.number]);
+      }
+    }
+    for (const [oneof, numbers] of movedIntoOneof) {
+      if (numbers.length > 1) {
+        issues.push({ path: `${messageName}.${oneof}`, message: `existing fields ${numbers.join(', ')} of ${labels.writer} were moved into oneof ${oneof} in ${labels.reader}` });
+      }
+    }
+  }
+}
+
+// JSON Schema compatibility: the reader schema must accept every document the writer schema accepts
+function jsonSchemaRef(schema: any, root: any): any {
+  if (schema && typeof schema === 'object' && typeof schema.$ref === 'string' && schema.$ref.startsWith('#')) {
+    const target = schema.$ref.slice(1).split('/').filter(Boolean).reduce((node: any, key: string) => node?.[decodeURIComponent(key.replace(/~1/g, '/').replace(/~0/g, '~'))], root);
+    return target === undefined ? schema : jsonSchemaRef(target, root);
+  }
+  return schema;
+}
+
+function jsonSchemaTypes(schema: any): string[] | undefined {
+  if (schema.type !== undefined) {
+    return Array.isArray(schema.type) ? schema.type : [schema.type];
+  }
+  if (schema.properties || schema.required || schema.additionalProperties !== undefined) {
+    return ['object'];
+  }
+  return schema.items ? ['array'] : undefined;
+}
+
+const JSON_SCHEMA_UPPER_BOUNDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties'];
+const JSON_SCHEMA_LOWER_BOUNDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties'];
+
+function checkJsonSchema(
+  readerSchema: any,
+  writerSchema: any,
+  context: { readerRoot: any; writerRoot: any; labels: SchemaLabels; seen: Set<string> },
+  path: string,
+  issues: SchemaIssue[]
+) {
+  const { labels } = context;
+  const reader = jsonSchemaRef(readerSchema, context.readerRoot);
+  const writer = jsonSchemaRef(writerSchema, context.writerRoot);
+  const at = path || '$';
+  if (reader === true || (reader && typeof reader === 'object' && Object.keys(reader).length === 0)) {
+    return;
+  }
+  if (reader === false || writer === false) {
+    if (reader === false && writer !== false) {
+      issues.push({ path: at, message: `${labels.reader} rejects every value, ${labels.writer} does not` });
+    }
+    return;
+  }
+  const seenKey = `${canonicalJson(reader)}|${canonicalJson(writer)}`;
+  if (context.seen.has(seenKey)) {
+    return;
+  }
+  context.seen.add(seenKey);
+  const readerBranches = reader.anyOf ?? reader.oneOf;
+  const writerBranches = writer === true ? undefined : writer.anyOf ?? writer.oneOf;
+  if (writerBranches) {
+    writerBranches.forEach((branch: any) => checkJsonSchema(reader, branch, context, path, issues));
+    return;
+  }
+  if (readerBranches) {
+    const { anyOf, oneOf, ...rest } = reader;
+    const matches = readerBranches.some((branch: any) => {
+      const branchIssues: SchemaIssue[] = [];
+      // A trial gets its own copy of the pairs seen, so that a discarded branch does not hide them from later checks
+      checkJsonSchema({ ...rest, ...jsonSchemaRef(branch, context.readerRoot) }, writer, { ...context, seen: new Set(context.seen) }, path, branchIssues);
+      return branchIssues.length === 0;
+    });
+    if (!matches) {
+      issues.push({ path: at, message: `values of ${labels.writer} match no ${anyOf ? 'anyOf' : 'oneOf'} branch of ${labels.reader}` });
+    }
+    return;
+  }
+  if (writer === true || (typeof writer === 'object' && Object.keys(writer).length === 0)) {
+    issues.push({ path: at, message: `${labels.reader} constrains a value that ${labels.writer} allows to be anything` });
+    return;
+  }
+  const readerTypes = jsonSchemaTypes(reader);
+  const writerTypes = jsonSchemaTypes(writer);
+  if (readerTypes) {
+    const rejected = writerTypes
+      ? writerTypes.filter(type => !readerTypes.includes(type) && !(type === 'integer' && readerTypes.includes('number')))
+      : ['any type'];
+    if (rejected.length) {
+      issues.push({ path: at, message: `type ${rejected.join(', ')} allowed in ${labels.writer} is not allowed in ${labels.reader} (${readerTypes.join(', ')})` });
+    }
+  }
+  const readerValues = reader.enum ?? (reader.const !== undefined ? [reader.const] : undefined);
+  const writerValues = writer.enum ?? (writer.const !== undefined ? [writer.const] : undefined);
+  if (readerValues) {
+    const allowed = new Set(readerValues.map(canonicalJson));
+    const rejected = writerValues ? writerValues.filter((value: any) => !allowed.has(canonicalJson(value))) : undefined;
+    if (!rejected) {
+      issues.push({ path: at, message: `${labels.reader} restricts the value to ${JSON.stringify(readerValues)}, ${labels.writer} does not` });
+    } else if (rejected.length) {
+      issues.push({ path: at, message: `value(s) ${rejected.map((value: any) => JSON.stringify(value)).join(', ')} of ${labels.writer} are not allowed in ${labels.reader}` });
+    }
+  }
+  for (const bound of JSON_SCHEMA_UPPER_BOUNDS) {
+    if (typeof reader[bound] === 'number' && !(typeof writer[bound] === 'number' && writer[bound] <= reader[bound])) {
+      issues.push({ path: at, message: `${bound} is ${reader[bound]} in ${labels.reader} but ${writer[bound] ?? 'not set'} in ${labels.writer}` });
+    }
+  }
+  for (const bound of JSON_SCHEMA_LOWER_BOUNDS) {
+    if (typeof reader[bound] === 'number' && !(typeof writer[bound] === 'number' && writer[bound] >= reader[bound])) {
+      issues.push({ path: at, message: `${bound} is ${reader[bound]} in ${labels.reader} but ${writer[bound] ?? 'not set'} in ${labels.writer}` });
+    }
+  }
+  if (reader.pattern !== undefined && reader.pattern !== writer.pattern) {
+    issues.push({ path: at, message: `pattern changed from ${writer.pattern ?? 'none'} in ${labels.writer} to ${reader.pattern} in ${labels.reader}` });
+  }
+  const writerRequired: string[] = writer.required ?? [];
+  for (const property of reader.required ?? []) {
+    if (!writerRequired.includes(property)) {
+      issues.push({ path: path ? `${path}.${property}` : property, message: `property is required in ${labels.reader} but optional in ${labels.writer}` });
+    }
+  }
+  const readerProperties = reader.properties ?? {};
+  const writerProperties = writer.properties ?? {};
+  const writerOpen = writer.additionalProperties !== false;
+  for (const [property, readerProperty] of Object.entries(readerProperties)) {
+    const propertyPath = path ? `${path}.${property}` : property;
+    if (property in writerProperties) {
+      checkJsonSchema(readerProperty, writerProperties[property], context, propertyPath, issues);
+    } else if (writerOpen) {
+      checkJsonSchema(readerProperty, writer.additionalProperties ?? true, context, propertyPath, issues);
+    }
+  }
+  for (const [property, writerProperty] of Object.entries(writerProperties)) {
+    if (property in readerProperties) {
+      continue;
+    }
+    if (reader.additionalProperties === false) {
+      issues.push({ path: path ? `${path}.${property}` : property, message: `property of ${labels.writer} is not allowed in ${labels.reader}, which has additionalProperties false` });
+    } else if (reader.additionalProperties !== undefined && reader.additionalProperties !== true) {
+      checkJsonSchema(reader.additionalProperties, writerProperty, context, path ? `${path}.${property}` : property, issues);
+    }
+  }
+  if (writerOpen && reader.additionalProperties === false && readerTypes?.includes('object')) {
+    issues.push({ path: at, message: `${labels.reader} does not allow additional properties, ${labels.writer} does` });
+  }
+  if (reader.items && !Array.isArray(reader.items)) {
+    checkJsonSchema(reader.items, writer.items && !Array.isArray(writer.items) ? writer.items : true, context, `${path}[]`, issues);
+  }
+}
+
+type SchemaType = 'AVRO' | 'PROTOBUF' | 'JSON';
+
+interface ParsedSchema {
+  type: SchemaType;
+  avro?: AvroSchema;
+  proto?: ProtoSchema;
+  json?: any;
+}
+
+interface SchemaReference {
+  name: string;
+  subject: string;
+  version: number;
+}
+
+// Parses a schema of the given type. Avro references are fetched from the registry so their named types can be resolved.
+async function parseSchema(cluster: string, type: SchemaType, text: string, references: SchemaReference[] = []): Promise<ParsedSchema> {
+  try {
+    switch (type) {
+      case 'AVRO': {
+        const referenced: AvroSchema[] = [];
+        for (const reference of references) {
+          const version = await getJson(parameterizeEndpoint('/api/{cluster}/schema/{subject}/version/{version}', { cluster, subject: reference.subject, version: reference.version }));
+          referenced.push(parseAvroSchema(version.schema));
+        }
+        return { type, avro: parseAvroSchema(text, referenced) };
+      }
+      case 'PROTOBUF':
+        return { type, proto: parseProtoSchema(text) };
+      case 'JSON':
+        return { type, json: JSON.parse(text) };
+    }
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new z.ZodError([{ code: 'custom', path: ['schema'], message: `Invalid ${type} schema: ${error.message}` }]);
+    }
+    throw error;
+  }
+}
+
+function schemaIssues(reader: ParsedSchema, writer: ParsedSchema, labels: SchemaLabels): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  if (reader.type !== writer.type) {
+    issues.push({ path: '', message: `schema type changed from ${writer.type} in ${labels.writer} to ${reader.type} in ${labels.reader}` });
+  } else if (reader.avro && writer.avro) {
+    checkAvro({ type: reader.avro.root }, { type: writer.avro.root }, { readerNames: reader.avro.names, writerNames: writer.avro.names, labels, seen: new Set() }, '', issues);
+  } else if (reader.proto && writer.proto) {
+    checkProto(reader.proto, writer.proto, labels, issues);
+  } else {
+    checkJsonSchema(reader.json, writer.json, { readerRoot: reader.json, writerRoot: writer.json, labels, seen: new Set() }, '', issues);
+  }
+  return issues;
+}
+
+const COMPATIBILITY_LEVELS = ['BACKWARD', 'BACKWARD_TRANSITIVE', 'FORWARD', 'FORWARD_TRANSITIVE', 'FULL', 'FULL_TRANSITIVE', 'NONE'] as const;
+
+// The registered versions of a subject, oldest first, with its compatibility level. A subject without versions is new.
+async function subjectVersions(cluster: string, subject: string) {
+  try {
+    const versions: any[] = await getJson(parameterizeEndpoint('/api/{cluster}/schema/{subject}/version', { cluster, subject }));
+    const latest = await getJson(parameterizeEndpoint('/api/{cluster}/schema/{subject}', { cluster, subject }));
+    return {
+      versions: [...versions].sort((a, b) => a.version - b.version),
+      compatibilityLevel: latest?.compatibilityLevel ?? null
+    };
+  } catch (error) {
+    if (error instanceof AkhqApiError && error.status === 404) {
+      return { versions: [], compatibilityLevel: null };
+    }
+    throw error;
+  }
+}
+
+const schemaReferenceSchema = z.object({
+  name: z.string(),
+  subject: z.string(),
+  version: z.number()
+});
+
+// Schema compatibility check
+registerTool(
+  'check_schema_compatibility',
+  'Check a candidate Avro, Protobuf or JSON Schema against the registered versions of a subject under its compatibility level (BACKWARD, FORWARD, FULL and their transitive variants) and explain every breaking change, e.g. a field added without a default or a changed type. With register, the schema is registered only if it is compatible',
+  {
+    cluster: z.string(),
+    subject: z.string(),
+    schema: z.string().describe('Candidate schema: Avro or JSON Schema as JSON text, Protobuf as .proto text'),
+    schemaType: z.enum(['AVRO', 'PROTOBUF', 'JSON']).optional().describe('Type of the candidate schema, the type of the latest version or AVRO when omitted'),
+    references: z.array(schemaReferenceSchema).optional().describe('Schemas referenced by the candidate'),
+    compatibilityLevel: z.enum(COMPATIBILITY_LEVELS).optional().describe('Compatibility level to check, the level of the subject when omitted'),
+    register: z.boolean().optional().describe('Register the candidate as a new version of the subject if it is compatible')
+  },
+  async (params) => {
+    try {
+      const validatedParams = z.object({
+    cluster: z.string(),
+    subject: z.string(),
+    schema: z.string(),
+    schemaType: z.enum(['AVRO', 'PROTOBUF', 'JSON']).optional(),
+    references: z.array(schemaReferenceSchema).optional(),
+    compatibilityLevel: z.enum(COMPATIBILITY_LEVELS).optional(),
+    register: z.boolean().optional()
+  }).parse(params);
+      const { cluster, subject, schema, references, register } = validatedParams;
+      const { versions, compatibilityLevel: subjectLevel } = await subjectVersions(cluster, subject);
+      const latest = versions[versions.length - 1];
+      const schemaType: SchemaType = validatedParams.schemaType ?? latest?.schemaType ?? 'AVRO';
+      const compatibilityLevel = validatedParams.compatibilityLevel ?? subjectLevel ?? 'BACKWARD';
+      const candidate = await parseSchema(cluster, schemaType, schema, references);
+      const checked = compatibilityLevel === 'NONE' ? [] : compatibilityLevel.endsWith('_TRANSITIVE') ? versions : versions.slice(-1);
+      const issues: { version: number; direction: string; path: string; message: string }[] = [];
+      for (const version of checked) {
+        const registered = await parseSchema(cluster, version.schemaType ?? 'AVRO', version.schema, version.references ?? []);
+        const label = `version ${version.version}`;
+        if (!compatibilityLevel.startsWith('FORWARD')) {
+          issues.push(...schemaIssues(candidate, registered, { reader: 'the candidate', writer: label }).map(issue => ({ version: version.version, direction: 'backward', ...issue })));
+        }
+        if (!compatibilityLevel.startsWith('BACKWARD')) {
+          issues.push(...schemaIssues(registered, candidate, { reader: label, writer: 'the candidate' }).map(issue => ({ version: version.version, direction: 'forward', ...issue })));
+        }
+      }
+      const compatible = issues.length === 0;
+      const lines = [
+        `Subject ${subject}: ${versions.length} registered version(s), compatibility level ${compatibilityLevel}${validatedParams.compatibilityLevel ? ' (requested)' : subjectLevel ? '' : ' (registry default)'}.`,
+        compatible
+          ? `The candidate is compatible${checked.length ? ` with version(s) ${checked.map(version => version.version).join(', ')}` : ''}.`
+          : `The candidate is NOT compatible: ${issues.length} breaking change(s). Backward means the candidate must read data written with the version, forward means the version must read data written with the candidate.`,
+        ...compatible ? [] : ['', formatTable(['version', 'direction', 'path', 'problem'], issues.map(issue => [issue.version, issue.direction, issue.path || '(root)', issue.message]))]
+      ];
+      if (register) {
+        const body = { subject, version: (latest?.version ?? 0) + 1, schema, schemaType, references: references ?? [] };
+        lines.push('');
+        if (!compatible) {
+          lines.push('Not registered because the candidate is not compatible.');
+        } else if (!isToolEnabled('post_schema_by_subject')) {
+          lines.push('Not registered: registering schemas is disabled on this server (post_schema_by_subject is not enabled).');
+        } else if (requiresConfirmation('post_schema_by_subject')) {
+          const confirmation = await checkConfirmation('post_schema_by_subject', { cluster, subject, body }, undefined);
+          lines.push('Registering requires confirmation. Call post_schema_by_subject with the params and confirmationToken below:', confirmation.result.content[0].text);
+        } else {
+          const result = await callApi(parameterizeEndpoint('/api/{cluster}/schema/{subject}', { cluster, subject }), 'POST', body, 'application/json');
+          lines.push(`Registered: ${result.content[0].text}`);
+        }
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: lines.join('\n')
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  }
+);
+
+// Field-level view of a schema, used to diff schema versions
+interface SchemaField {
+  type: string;
+  default?: string; // JSON of the default value
+  aliases?: string[];
+  symbols?: string[];
+  number?: number; // Protobuf field number
+}
+
+function describeAvro(type: any, namespace: string | undefined, names: Map<string, any>): string {
+  const resolved = resolveAvro(type, namespace, names);
+  const definition = resolved.type;
+  if (Array.isArray(definition)) {
+    return `union [${definition.map(branch => describeAvro(branch, resolved.namespace, names)).join(', ')}]`;
+  }
+  if (typeof definition === 'string') {
+    return type?.logicalType ? `${definition} (${type.logicalType})` : definition;
+  }
+  switch (definition.type) {
+    case 'array':
+      return `array<${describeAvro(definition.items, resolved.namespace, names)}>`;
+    case 'map':
+      return `map<${describeAvro(definition.values, resolved.namespace, names)}>`;
+    case 'unresolved':
+      return definition.name;
+    default:
+      return `${avroKind(definition)} ${avroFullName(definition.name, resolved.namespace)}`;
+  }
+}
+
+function flattenAvro(schema: AvroSchema): Map<string, SchemaField> {
+  const fields = new Map<string, SchemaField>();
+  const visit = (type: any, namespace: string | undefined, path: string, seen: Set<string>) => {
+    const resolved = resolveAvro(type, namespace, schema.names);
+    const definition = resolved.type;
+    const kind = avroKind(definition);
+    if (kind === 'union') {
+      definition.forEach((branch: any) => visit(branch, resolved.namespace, path, seen));
+    } else if (kind === 'enum' && fields.has(path)) {
+      fields.get(path)!.symbols = definition.symbols ?? [];
+    } else if (kind === 'array') {
+      visit(definition.items, resolved.namespace, `${path}[]`, seen);
+    } else if (kind === 'map') {
+      visit(definition.values, resolved.namespace, `${path}{}`, seen);
+    } else if (kind === 'record') {
+      const name = avroFullName(definition.name, resolved.namespace);
+      if (seen.has(name)) {
+        return;
+      }
+      for (const field of definition.fields ?? []) {
+        const fieldPath = path ? `${path}.${field.name}` : field.name;
+        fields.set(fieldPath, {
+          type: describeAvro(field.type, resolved.namespace, schema.names),
+          ...'default' in field ? { default: JSON.stringify(field.default) } : {},
+          ...field.aliases ? { aliases: field.aliases } : {}
+        });
+        visit(field.type, resolved.namespace, fieldPath, new Set([...seen, name]));
+      }
+    }
+  };
+  visit(schema.root, undefined, '', new Set());
+  return fields;
+}
+
+function flattenProto(schema: ProtoSchema): Map<string, SchemaField> {
+  const fields = new Map<string, SchemaField>();
+  for (const [messageName, messageFields] of schema.messages) {
+    for (const field of messageFields) {
+      fields.set(`${messageName}.${field.name}`, {
+        type: [field.label, field.type].filter(Boolean).join(' ') + (field.oneof ? ` (oneof ${field.oneof})` : ''),
+        number: field.number,
+        ...schema.enums.has(field.type) ? { symbols: schema.enums.get(field.type) } : {}
+      });
+    }
+  }
+  return fields;
+}
+
+function flattenJsonSchema(root: any): Map<string, SchemaField> {
+  const fields = new Map<string, SchemaField>();
+  const visit = (node: any, path: string, seen: Set<string>) => {
+    const schema = jsonSchemaRef(node, root);
+    if (!schema || typeof schema !== 'object' || (node?.$ref && seen.has(node.$ref))) {
+      return;
+    }
+    const nextSeen = node?.$ref ? new Set([...seen, node.$ref]) : seen;
+    for (const [property, child] of Object.entries<any>(schema.properties ?? {})) {
+      const resolved = jsonSchemaRef(child, root);
+      const propertyPath = path ? `${path}.${property}` : property;
+      fields.set(propertyPath, {
+        type: (jsonSchemaTypes(resolved ?? {}) ?? ['any']).join(' | ') + ((schema.required ?? []).includes(property) ? ' (required)' : ''),
+        ...resolved?.default !== undefined ? { default: JSON.stringify(resolved.default) } : {},
+        ...resolved?.enum ? { symbols: resolved.enum.map((value: any) => JSON.stringify(value)) } : {}
+      });
+      visit(child, propertyPath, nextSeen);
+    }
+    if (schema.items && !Array.isArray(schema.items)) {
+      visit(schema.items, `${path}[]`, nextSeen);
+    }
+    for (const branch of [...schema.allOf ?? [], ...schema.anyOf ?? [], ...schema.oneOf ?? []]) {
+      visit(branch, path, nextSeen);
+    }
+  };
+  visit(root, '', new Set());
+  return fields;
+}
+
+function flattenSchema(schema: ParsedSchema): Map<string, SchemaField> {
+  if (schema.avro) {
+    return flattenAvro(schema.avro);
+  }
+  return schema.proto ? flattenProto(schema.proto) : flattenJsonSchema(schema.json);
+}
+
+interface FieldChange {
+  path: string;
+  change: 'added' | 'removed' | 'renamed' | 'looks renamed' | 'type changed' | 'default changed' | 'symbols changed';
+  before?: string;
+  after?: string;
+}
+
+function parentPath(path: string): string {
+  return path.includes('.') ? path.slice(0, path.lastIndexOf('.')) : '';
+}
+
+function fieldName(path: string): string {
+  return path.slice(path.lastIndexOf('.') + 1);
+}
+
+// Diffs two flattened schemas. A removed and an added field under the same parent count as a rename when an Avro alias
+// or the Protobuf field number links them, and as renamed-looking when only their types match.
+function diffSchemaFields(before: Map<string, SchemaField>, after: Map<string, SchemaField>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const removed = [...before.keys()].filter(path => !after.has(path));
+  const added = [...after.keys()].filter(path => !before.has(path));
+  const renamed = new Set<string>();
+  for (const oldPath of removed) {
+    const oldField = before.get(oldPath)!;
+    const candidates = added.filter(newPath => !renamed.has(newPath) && parentPath(newPath) === parentPath(oldPath));
+    const linked = candidates.find(newPath => {
+      const newField = after.get(newPath)!;
+      return (newField.aliases ?? []).includes(fieldName(oldPath)) || (newField.number !== undefined && newField.number === oldField.number);
+    });
+    const similar = linked ?? candidates.find(newPath => after.get(newPath)!.type === oldField.type && after.get(newPath)!.number === undefined);
+    if (similar) {
+      renamed.add(oldPath).add(similar);
+      changes.push({ path: oldPath, change: linked ? 'renamed' : 'looks renamed', before: fieldName(oldPath), after: fieldName(similar) });
+    }
+  }
+  for (const path of removed.filter(path => !renamed.has(path))) {
+    changes.push({ path, change: 'removed', before: before.get(path)!.type });
+  }
+  for (const path of added.filter(path => !renamed.has(path))) {
+    const field = after.get(path)!;
+    changes.push({ path, change: 'added', after: field.default === undefined ? field.type : `${field.type} = ${field.default}` });
+  }
+  for (const [path, oldField] of before) {
+    const newField = after.get(path);
+    if (!newField) {
+      continue;
+    }
+    if (oldField.type !== newField.type) {
+      changes.push({ path, change: 'type changed', before: oldField.type, after: newField.type });
+    }
+    if (oldField.default !== newField.default) {
+      changes.push({ path, change: 'default changed', before: oldField.default ?? '(none)', after: newField.default ?? '(none)' });
+    }
+    const oldSymbols = oldField.symbols ?? [];
+    const newSymbols = newField.symbols ?? [];
+    const removedSymbols = oldSymbols.filter(symbol => !newSymbols.includes(symbol));
+    const addedSymbols = newSymbols.filter(symbol => !oldSymbols.includes(symbol));
+    if (removedSymbols.length || addedSymbols.length) {
+      changes.push({
+        path,
+        change: 'symbols changed',
+        before: removedSymbols.length ? `removed ${removedSymbols.join(', ')}` : undefined,
+        after: addedSymbols.length ? `added ${addedSymbols.join(', ')}` : undefined
+      });
+    }
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Changelog section for one step between two versions, with the compatibility issues the step introduced
+function describeVersionStep(from: any, to: any, fromSchema: ParsedSchema, toSchema: ParsedSchema): string[] {
+  const changes = fromSchema.type === toSchema.type
+    ? diffSchemaFields(flattenSchema(fromSchema), flattenSchema(toSchema))
+    : [{ path: '(root)', change: 'type changed' as const, before: fromSchema.type, after: toSchema.type }];
+  const backward = schemaIssues(toSchema, fromSchema, { reader: `version ${to.version}`, writer: `version ${from.version}` });
+  const forward = schemaIssues(fromSchema, toSchema, { reader: `version ${from.version}`, writer: `version ${to.version}` });
+  return [
+    `## Version ${from.version} → ${to.version}${to.id !== undefined ? ` (schema id ${to.id})` : ''}: ${changes.length} change(s)`,
+    changes.length ? formatTable(['field', 'change', 'before', 'after'], changes.map(change => [change.path, change.change, change.before, change.after])) : 'No field-level changes.',
+    ...backward.length ? ['', `Consumers on version ${to.version} cannot read data written with version ${from.version} (backward):`, ...backward.map(issue => `- ${issue.path || '(root)'}: ${issue.message}`)] : [],
+    ...forward.length ? ['', `Consumers on version ${from.version} cannot read data written with version ${to.version} (forward):`, ...forward.map(issue => `- ${issue.path || '(root)'}: ${issue.message}`)] : [],
+    ''
+  ];
+}
+
+// Schema evolution history
+registerTool(
+  'get_schema_history',
+  'Field-level changelog of a schema subject across all its versions: added, removed, renamed and renamed-looking fields, type, default and enum symbol changes, and which steps broke backward or forward compatibility. Handles nested Avro records and references, Protobuf and JSON Schema. With fromVersion and/or toVersion, diffs only those two versions',
+  {
+    cluster: z.string(),
+    subject: z.string(),
+    fromVersion: z.number().optional().describe('Version to diff from, the version before toVersion when omitted'),
+    toVersion: z.number().optional().describe('Version to diff to, the latest version when omitted')
+  },
+  async (params) => {
+    try {
+      const validatedParams = z.object({
+    cluster: z.string(),
+    subject: z.string(),
+    fromVersion: z.number().optional(),
+    toVersion: z.number().optional()
+  }).parse(params);
+      const { cluster, subject, fromVersion, toVersion } = validatedParams;
+      const { versions } = await subjectVersions(cluster, subject);
+      if (versions.length === 0) {
+        throw new AkhqApiError(404, 'GET', parameterizeEndpoint('/api/{cluster}/schema/{subject}/version', { cluster, subject }), `Subject ${subject} has no versions`, 'Check the subject name with get_schema.', currentInstance().name);
+      }
+      const find = (version: number, field: string) => {
+        const index = versions.findIndex(candidate => candidate.version === version);
+        if (index < 0) {
+          throw new z.ZodError([{ code: 'custom', path: [field], message: `Version ${version} not found, versions are ${versions.map(candidate => candidate.version).join(', ')}` }]);
+        }
+        return index;
+      };
+      const parsed = new Map<number, ParsedSchema>();
+      const parse = async (version: any) => {
+        if (!parsed.has(version.version)) {
+          parsed.set(version.version, await parseSchema(cluster, version.schemaType ?? 'AVRO', version.schema, version.references ?? []));
+        }
+        return parsed.get(version.version)!;
+      };
+      const lines: string[] = [];
+      if (fromVersion !== undefined || toVersion !== undefined) {
+        const toIndex = toVersion !== undefined ? find(toVersion, 'toVersion') : versions.length - 1;
+        const fromIndex = fromVersion !== undefined ? find(fromVersion, 'fromVersion') : Math.max(toIndex - 1, 0);
+        const from = versions[fromIndex];
+        const to = versions[toIndex];
+        lines.push(`# Schema ${subject}: version ${from.version} compared with version ${to.version}`, '', ...describeVersionStep(from, to, await parse(from), await parse(to)));
+      } else {
+        const first = versions[0];
+        const firstFields = flattenSchema(await parse(first));
+        lines.push(
+          `# Schema history of ${subject}: ${versions.length} version(s)`,
+          '',
+          `## Version ${first.version}${first.id !== undefined ? ` (schema id ${first.id})` : ''}: initial ${first.schemaType ?? 'AVRO'} schema with ${firstFields.size} field(s)`,
+          ''
+        );
+        for (let index = 1; index < versions.length; index++) {
+          lines.push(...describeVersionStep(versions[index - 1], versions[index], await parse(versions[index - 1]), await parse(versions[index])));
+        }
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: lines.join('\n')
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  }
+);
+
+// Validation of decoded records against their schema. Each validator collects "path: problem" messages, up to a limit per record.
+const MAX_VALIDATION_ERRORS = 10;
+
+function isPlainObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function jsonTypeOf(value: any): string {
+  return value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+}
+
+function validateAvro(type: any, namespace: string | undefined, names: Map<string, any>, value: any, path: string, errors: string[]) {
+  if (errors.length >= MAX_VALIDATION_ERRORS) {
+    return;
+  }
+  const resolved = resolveAvro(type, namespace, names);
+  const definition = resolved.type;
+  const kind = avroKind(definition);
+  const at = path || '(root)';
+  const fail = (message: string) => errors.push(`${at}: ${message}`);
+  switch (kind) {
+    case 'union': {
+      const matches = (branch: any, branchValue: any) => {
+        const branchErrors: string[] = [];
+        validateAvro(branch, resolved.namespace, names, branchValue, path, branchErrors);
+        return branchErrors.length === 0;
+      };
+      // Plain JSON as rendered by AKHQ, or the {"type": value} wrapping of the Avro JSON encoding
+      const wrapped = isPlainObject(value) && Object.keys(value).length === 1 ? Object.entries(value)[0] : undefined;
+      if (!definition.some((branch: any) => matches(branch, value) || (wrapped && describeAvro(branch, resolved.namespace, names).endsWith(wrapped[0]) && matches(branch, wrapped[1])))) {
+        fail(`${jsonTypeOf(value)} matches no branch of ${describeAvro(definition, resolved.namespace, names)}`);
+      }
+      return;
+    }
+    case 'null':
+      return value === null ? undefined : void fail(`expected null, got ${jsonTypeOf(value)}`);
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : void fail(`expected boolean, got ${jsonTypeOf(value)}`);
+    case 'int':
+    case 'long':
+      if (typeof value === 'string' && type?.logicalType) {
+        return; // Date and time logical types may be rendered as text
+      }
+      if (!Number.isInteger(value)) {
+        fail(`expected ${kind}, got ${JSON.stringify(value)}`);
+      } else if (kind === 'int' && (value < -(2 ** 31) || value >= 2 ** 31)) {
+        fail(`${value} is out of the int range`);
+      }
+      return;
+    case 'float':
+    case 'double':
+      return typeof value === 'number' || (typeof value === 'string' && ['NaN', 'Infinity', '-Infinity'].includes(value)) ? undefined : void fail(`expected ${kind}, got ${jsonTypeOf(value)}`);
+    case 'string':
+    case 'bytes':
+    case 'fixed':
+      return typeof value === 'string' || (kind !== 'string' && Array.isArray(value)) ? undefined : void fail(`expected ${kind}, got ${jsonTypeOf(value)}`);
+    case 'enum':
+      return (definition.symbols ?? []).includes(value) ? undefined : void fail(`${JSON.stringify(value)} is not a symbol of enum ${definition.name}`);
+    case 'array':
+      if (!Array.isArray(value)) {
+        return void fail(`expected array, got ${jsonTypeOf(value)}`);
+      }
+      value.forEach((item, index) => validateAvro(definition.items, resolved.namespace, names, item, `${path}[${index}]`, errors));
+      return;
+    case 'map':
+      if (!isPlainObject(value)) {
+        return void fail(`expected map, got ${jsonTypeOf(value)}`);
+      }
+      Object.entries(value).forEach(([key, item]) => validateAvro(definition.values, resolved.namespace, names, item, `${path}.${key}`, errors));
+      return;
+    case 'record': {
+      if (!isPlainObject(value)) {
+        return void fail(`expected record ${definition.name}, got ${jsonTypeOf(value)}`);
+      }
+      const fields: any[] = definition.fields ?? [];
+      for (const field of fields) {
+        const fieldPath = path ? `${path}.${field.name}` : field.name;
+        if (field.name in value) {
+          validateAvro(field.type, resolved.namespace, names, value[field.name], fieldPath, errors);
+        } else if (!('default' in field)) {
+          errors.push(`${fieldPath}: missing field without default`);
+        }
+      }
+      for (const key of Object.keys(value).filter(key => !fields.some(field => field.name === key))) {
+        errors.push(`${path ? `${path}.${key}` : key}: field is not in the schema`);
+      }
+      return;
+    }
+  }
+}
+
+function validateJsonSchema(node: any, root: any, value: any, path: string, errors: string[]) {
+  const schema = jsonSchemaRef(node, root);
+  const at = path || '(root)';
+  if (errors.length >= MAX_VALIDATION_ERRORS || schema === true || schema === undefined) {
+    return;
+  }
+  if (schema === false) {
+    errors.push(`${at}: no value is allowed`);
+    return;
+  }
+  const types = schema.type === undefined ? undefined : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types && !types.some((type: string) => type === jsonTypeOf(value) || (type === 'integer' && Number.isInteger(value)))) {
+    errors.push(`${at}: expected ${types.join(' or ')}, got ${jsonTypeOf(value)}`);
+    return;
+  }
+  const allowed = schema.enum ?? (schema.const !== undefined ? [schema.const] : undefined);
+  if (allowed && !allowed.some((candidate: any) => canonicalJson(candidate) === canonicalJson(value))) {
+    errors.push(`${at}: ${JSON.stringify(value)} is not one of ${JSON.stringify(allowed)}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at}: shorter than minLength ${schema.minLength}`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${at}: longer than maxLength ${schema.maxLength}`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push(`${at}: does not match pattern ${schema.pattern}`);
+    }
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${at}: ${value} is below minimum ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${at}: ${value} is above maximum ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      errors.push(`${at}: ${value} is not above exclusiveMinimum ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      errors.push(`${at}: ${value} is not below exclusiveMaximum ${schema.exclusiveMaximum}`);
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at}: fewer than minItems ${schema.minItems}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${at}: more than maxItems ${schema.maxItems}`);
+    }
+    value.forEach((item, index) => {
+      const itemSchema = Array.isArray(schema.items) ? schema.items[index] ?? schema.additionalItems : schema.items ?? schema.prefixItems?.[index];
+      validateJsonSchema(itemSchema, root, item, `${path}[${index}]`, errors);
+    });
+  }
+  if (isPlainObject(value)) {
+    const properties = schema.properties ?? {};
+    for (const property of schema.required ?? []) {
+      if (!(property in value)) {
+        errors.push(`${path ? `${path}.${property}` : property}: required property is missing`);
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const propertyPath = path ? `${path}.${key}` : key;
+      if (key in properties) {
+        validateJsonSchema(properties[key], root, item, propertyPath, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${propertyPath}: additional property is not allowed`);
+      } else if (schema.additionalProperties !== undefined) {
+        validateJsonSchema(schema.additionalProperties, root, item, propertyPath, errors);
+      }
+    }
+  }
+  for (const branch of schema.allOf ?? []) {
+    validateJsonSchema(branch, root, value, path, errors);
+  }
+  for (const [keyword, branches] of [['anyOf', schema.anyOf], ['oneOf', schema.oneOf]] as [string, any[] | undefined][]) {
+    if (!branches) {
+      continue;
+    }
+    const matching = branches.filter(branch => {
+      const branchErrors: string[] = [];
+      validateJsonSchema(branch, root, value, path, branchErrors);
+      return branchErrors.length === 0;
+    }).length;
+    if (matching === 0 || (keyword === 'oneOf' && matching > 1)) {
+      errors.push(`${at}: matches ${matching} of the ${keyword} branches`);
+    }
+  }
+}
+
+const PROTO_INT32 = ['int32', 'uint32', 'sint32', 'fixed32', 'sfixed32'];
+const PROTO_INT64 = ['int64', 'uint64', 'sint64', 'fixed64', 'sfixed64'];
+
+// Validates the canonical protobuf JSON mapping: lowerCamelCase or original field names, 64-bit integers as numbers or strings, enums by name or number
+function validateProto(schema: ProtoSchema, messageName: string, value: any, path: string, errors: string[]) {
+  const fields = schema.messages.get(messageName);
+  const at = path || '(root)';
+  if (!fields) {
+    return; // Imported and well-known types are not validated
+  }
+  if (!isPlainObject(value)) {
+    errors.push(`${at}: expected message ${messageName}, got ${jsonTypeOf(value)}`);
+    return;
+  }
+  const jsonName = (name: string) => name.replace(/_([a-z0-9])/g, (_, letter) => letter.toUpperCase());
+  const validateScalar = (type: string, item: any, itemPath: string) => {
+    const valid = PROTO_INT32.includes(type) ? Number.isInteger(item) || (typeof item === 'string' && /^-?\d+$/.test(item))
+      : PROTO_INT64.includes(type) ? Number.isInteger(item) || (typeof item === 'string' && /^-?\d+$/.test(item))
+      : ['float', 'double'].includes(type) ? typeof item === 'number' || ['NaN', 'Infinity', '-Infinity'].includes(item)
+      : type === 'bool' ? typeof item === 'boolean'
+      : type === 'string' || type === 'bytes' ? typeof item === 'string'
+      : schema.enums.has(type) ? schema.enums.get(type)!.includes(item) || Number.isInteger(item)
+      : true;
+    if (!valid) {
+      errors.push(`${itemPath}: ${JSON.stringify(item)} is not a valid ${type}`);
+    } else if (schema.messages.has(type)) {
+      validateProto(schema, type, item, itemPath, errors);
+    }
+  };
+  for (const [key, item] of Object.entries(value)) {
+    const field = fields.find(candidate => candidate.name === key || jsonName(candidate.name) === key);
+    const fieldPath = path ? `${path}.${key}` : key;
+    if (!field) {
+      errors.push(`${fieldPath}: field is not in message ${messageName}`);
+    } else if (item === null || errors.length >= MAX_VALIDATION_ERRORS) {
+      continue;
+    } else if (field.map) {
+      const valueType = field.type.slice(field.type.indexOf(',') + 1, -1).trim();
+      if (!isPlainObject(item)) {
+        errors.push(`${fieldPath}: expected map, got ${jsonTypeOf(item)}`);
+      } else {
+        Object.entries(item as object).forEach(([entryKey, entry]) => validateScalar(valueType, entry, `${fieldPath}.${entryKey}`));
+      }
+    } else if (field.label === 'repeated') {
+      if (!Array.isArray(item)) {
+        errors.push(`${fieldPath}: expected repeated ${field.type}, got ${jsonTypeOf(item)}`);
+      } else {
+        item.forEach((entry, index) => validateScalar(field.type, entry, `${fieldPath}[${index}]`));
+      }
+    } else {
+      validateScalar(field.type, item, fieldPath);
+    }
+  }
+  for (const field of fields.filter(candidate => candidate.label === 'required')) {
+    if (!(field.name in value) && !(jsonName(field.name) in value)) {
+      errors.push(`${path ? `${path}.${field.name}` : field.name}: required field is missing`);
+    }
+  }
+}
+
+function validateAgainstSchema(schema: ParsedSchema, value: any): string[] {
+  const errors: string[] = [];
+  if (schema.avro) {
+    validateAvro(schema.avro.root, undefined, schema.avro.names, value, '', errors);
+  } else if (schema.proto) {
+    // The record does not say which message of the file it holds, so it is valid if it matches any top-level message
+    const proto = schema.proto;
+    const candidates = [...proto.messages.keys()].filter(name => !name.includes('.'));
+    const results = candidates.map(name => {
+      const messageErrors: string[] = [];
+      validateProto(proto, name, value, '', messageErrors);
+      return messageErrors;
+    });
+    errors.push(...results.find(messageErrors => messageErrors.length === 0) ?? results[0] ?? []);
+  } else {
+    validateJsonSchema(schema.json, schema.json, value, '', errors);
+  }
+  return errors.slice(0, MAX_VALIDATION_ERRORS);
+}
+
+function parseJsonText(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Decodes text holding a JSON object or array. Other text, e.g. "12345" or "true", stays the string it is.
+function parseJsonStructure(text: string): any {
+  const decoded = parseJsonText(text);
+  return isPlainObject(decoded) || Array.isArray(decoded) ? decoded : text;
+}
+
+// Whether the root of a schema can be a string, e.g. an Avro string, enum or union with a string branch
+function schemaAcceptsString(schema: ParsedSchema): boolean {
+  if (schema.avro) {
+    const names = schema.avro.names;
+    const accepts = (type: any, namespace: string | undefined): boolean => {
+      const resolved = resolveAvro(type, namespace, names);
+      const kind = avroKind(resolved.type);
+      return kind === 'union'
+        ? resolved.type.some((branch: any) => accepts(branch, resolved.namespace))
+        : ['string', 'bytes', 'enum', 'fixed'].includes(kind);
+    };
+    return accepts(schema.avro.root, undefined);
+  }
+  if (schema.proto) {
+    return false;
+  }
+  const accepts = (node: any, seen: Set<string>): boolean => {
+    const resolved = jsonSchemaRef(node, schema.json);
+    if (resolved === true || resolved === undefined) {
+      return true;
+    }
+    if (!resolved || typeof resolved !== 'object' || (node?.$ref && seen.has(node.$ref))) {
+      return false;
+    }
+    const nextSeen = node?.$ref ? new Set([...seen, node.$ref]) : seen;
+    if (resolved.anyOf || resolved.oneOf) {
+      return [...resolved.anyOf ?? [], ...resolved.oneOf ?? []].some((branch: any) => accepts(branch, nextSeen));
+    }
+    if (resolved.const !== undefined) {
+      return typeof resolved.const === 'string';
+    }
+    if (resolved.enum) {
+      return resolved.enum.some((value: any) => typeof value === 'string');
+    }
+    return jsonSchemaTypes(resolved)?.includes('string') ?? true;
+  };
+  return accepts(schema.json, new Set());
+}
+
+// The value of record text to validate against a schema. Text is taken as the string itself when the schema accepts
+// strings and it conforms, so keys such as "12345" or "true" stay strings, and decoded as JSON otherwise.
+function schemaValue(schema: ParsedSchema, text: string): any {
+  if (schemaAcceptsString(schema) && validateAgainstSchema(schema, text).length === 0) {
+    return text;
+  }
+  const decoded = parseJsonText(text);
+  return schemaAcceptsString(schema) && (decoded === null || typeof decoded !== 'object') ? text : decoded;
+}
+
+interface RegisteredSchema {
+  id: number;
+  subject: string | null;
+  version: number | null;
+  type: SchemaType;
+  parsed: ParsedSchema;
+}
+
+// Schemas by instance, cluster and id. Registered schemas never change, so they are kept for the lifetime of the server.
+const schemasById = new Map<string, Promise<RegisteredSchema>>();
+
+function schemaById(cluster: string, id: number, topic?: string): Promise<RegisteredSchema> {
+  const key = `${currentInstance().name}|${cluster}|${id}`;
+  if (!schemasById.has(key)) {
+    const loading = (async () => {
+      const schema = await getJson(parameterizeEndpoint('/api/{cluster}/schema/id/{id}', { cluster, id, topic }, ['topic']));
+      const type: SchemaType = schema.schemaType ?? 'AVRO';
+      return { id, subject: schema.subject ?? null, version: schema.version ?? null, type, parsed: await parseSchema(cluster, type, schema.schema, schema.references ?? []) };
+    })();
+    schemasById.set(key, loading);
+    loading.catch(() => schemasById.delete(key));
+  }
+  return schemasById.get(key)!;
+}
+
+// Resolves the key and value schema of each record by id and validates the record against them.
+// Records get a schemaValidation entry, and the summary lists the schema ids seen and the records that do not conform.
+interface SchemaIdStats {
+  id: number;
+  subject: string | null;
+  version: number | null;
+  type: SchemaType | null;
+  keys: number;
+  values: number;
+  invalid: number;
+  error?: string;
+}
+
+async function validateRecordSchemas(cluster: string, records: any[], topicName?: string) {
+  const seen = new Map<number, SchemaIdStats>();
+  const invalid: any[] = [];
+  let withoutSchema = 0;
+  for (const record of records) {
+    const topic = typeof record.topic === 'string' ? record.topic : record.topic?.name ?? topicName;
+    const validation: Record<string, any> = {};
+    for (const part of ['key', 'value'] as const) {
+      const schemaId = record[`${part}SchemaId`];
+      if (schemaId === null || schemaId === undefined) {
+        continue;
+      }
+      const stats: SchemaIdStats = seen.get(schemaId) ?? { id: schemaId, subject: null, version: null, type: null, keys: 0, values: 0, invalid: 0 };
+      seen.set(schemaId, stats);
+      stats[part === 'key' ? 'keys' : 'values']++;
+      let errors: string[];
+      try {
+        const schema = await schemaById(cluster, schemaId, topic);
+        Object.assign(stats, { subject: schema.subject, version: schema.version, type: schema.type });
+        const raw = record[part];
+        if (raw === null || raw === undefined) {
+          validation[part] = { schemaId, valid: true, empty: true }; // Tombstones and empty keys
+          continue;
+        }
+        const decoded = typeof raw === 'string' ? schemaValue(schema.parsed, raw) : raw;
+        errors = validateAgainstSchema(schema.parsed, decoded);
+        if (errors.length && typeof decoded === 'string' && !schemaAcceptsString(schema.parsed)) {
+          errors.unshift(`${part} is not decoded JSON; the deserializer may not match schema id ${schemaId}`);
+        }
+      } catch (error) {
+        if (!(error instanceof AkhqApiError)) {
+          throw error;
+        }
+        stats.error = error.akhqMessage;
+        errors = [`schema id ${schemaId} could not be resolved: ${error.akhqMessage}`];
+      }
+      validation[part] = { schemaId, valid: errors.length === 0, ...errors.length ? { errors } : {} };
+      if (errors.length) {
+        stats.invalid++;
+        invalid.push({ topic, partition: record.partition, offset: record.offset, part, schemaId, errors });
+      }
+    }
+    if (Object.keys(validation).length) {
+      record.schemaValidation = validation;
+    } else {
+      withoutSchema++;
+    }
+  }
+  return {
+    recordsChecked: records.length,
+    recordsWithoutSchema: withoutSchema,
+    invalidRecords: new Set(invalid.map(entry => `${entry.topic}|${entry.partition}|${entry.offset}`)).size,
+    schemaIds: [...seen.values()],
+    invalid: invalid.slice(0, 20)
+  };
+}
+
+interface SubjectSchema {
+  subject: string;
+  id: number | null;
+  version: number | null;
+  latestVersion: number | null;
+  parsed: ParsedSchema;
+}
+
+// The latest or a pinned version of a subject. Subjects that do not exist are only an error when they were asked for explicitly.
+async function subjectSchema(cluster: string, subject: string, version: number | undefined, required: boolean): Promise<SubjectSchema | undefined> {
+  try {
+    const latest = await getJson(parameterizeEndpoint('/api/{cluster}/schema/{subject}', { cluster, subject }));
+    const schema = version === undefined || version === latest.version
+      ? latest
+      : await getJson(parameterizeEndpoint('/api/{cluster}/schema/{subject}/version/{version}', { cluster, subject, version }));
+    return {
+      subject,
+      id: schema.id ?? null,
+      version: schema.version ?? null,
+      latestVersion: latest.version ?? null,
+      parsed: await parseSchema(cluster, schema.schemaType ?? 'AVRO', schema.schema, schema.references ?? [])
+    };
+  } catch (error) {
+    if (error instanceof AkhqApiError && error.status === 404 && !required) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+const produceMessageSchema = z.object({
+  key: z.any().optional(),
+  value: z.any().optional(),
+  partition: z.number().optional(),
+  timestamp: z.string().optional(),
+  headers: z.union([z.record(z.string()), z.array(z.object({ key: z.string(), value: z.string() }))]).optional()
+});
+
+const produceMessagesSchema = z.object({
+  cluster: z.string(),
+  topicName: z.string(),
+  messages: z.array(produceMessageSchema).min(1),
+  keySubject: z.string().optional(),
+  valueSubject: z.string().optional(),
+  keySchemaVersion: z.number().optional(),
+  valueSchemaVersion: z.number().optional(),
+  partition: z.number().optional(),
+  validateOnly: z.boolean().optional()
+});
+
+type ProduceMessagesParams = z.infer<typeof produceMessagesSchema>;
+
+// Resolves the key and value schemas and turns each message into a post_topic_data body, validating it on the way.
+// Without a schema, strings are sent as they are and other values as JSON.
+async function planProduce(params: ProduceMessagesParams) {
+  const { cluster, topicName } = params;
+  const schemas = {
+    key: await subjectSchema(cluster, params.keySubject ?? `${topicName}-key`, params.keySchemaVersion, params.keySubject !== undefined || params.keySchemaVersion !== undefined),
+    value: await subjectSchema(cluster, params.valueSubject ?? `${topicName}-value`, params.valueSchemaVersion, params.valueSubject !== undefined || params.valueSchemaVersion !== undefined)
+  };
+  const warnings = Object.entries(schemas)
+    .filter(([, schema]) => schema && schema.version !== schema.latestVersion)
+    .map(([part, schema]) => `${part} messages are validated against version ${schema!.version} of ${schema!.subject}, but AKHQ serializes them with the latest version ${schema!.latestVersion}`);
+  const messages = params.messages.map((message, index) => {
+    const errors: string[] = [];
+    const encode = (part: 'key' | 'value') => {
+      const content = message[part];
+      const schema = schemas[part];
+      if (content === undefined || content === null) {
+        return content;
+      }
+      if (schema) {
+        errors.push(...validateAgainstSchema(schema.parsed, typeof content === 'string' ? schemaValue(schema.parsed, content) : content).map(error => `${part} ${error}`));
+      }
+      return typeof content === 'string' ? content : JSON.stringify(content);
+    };
+    const headers = Array.isArray(message.headers)
+      ? message.headers
+      : Object.entries(message.headers ?? {}).map(([key, value]) => ({ key, value }));
+    const body = {
+      key: encode('key'),
+      value: encode('value'),
+      partition: message.partition ?? params.partition,
+      timestamp: message.timestamp,
+      headers,
+      keySchema: schemas.key?.subject,
+      valueSchema: schemas.value?.subject
+    };
+    return { index, body, errors };
+  });
+  return { schemas, warnings, messages };
+}
+
+function describeProducePlan(plan: Awaited<ReturnType<typeof planProduce>>) {
+  const schema = (subjectSchema?: SubjectSchema) => subjectSchema ? { subject: subjectSchema.subject, version: subjectSchema.version, id: subjectSchema.id } : null;
+  return {
+    keySchema: schema(plan.schemas.key),
+    valueSchema: schema(plan.schemas.value),
+    warnings: plan.warnings,
+    messages: plan.messages.length,
+    partitions: [...new Set(plan.messages.map(message => message.body.partition ?? 'default partitioner'))],
+    invalid: plan.messages.filter(message => message.errors.length).map(({ index, errors }) => ({ index, errors }))
+  };
+}
+
+interface ProduceResult {
+  index: number;
+  status: 'valid' | 'invalid' | 'produced' | 'failed' | 'skipped';
+  partition?: number;
+  offset?: number;
+  errors?: any;
+}
+
+// Produces the planned messages one by one, at most ratePerSecond per second, stopping at the first failure or when cancelled
+async function sendProducePlan(
+  cluster: string,
+  topicName: string,
+  plan: Awaited<ReturnType<typeof planProduce>>,
+  ratePerSecond?: number,
+  signal?: AbortSignal
+): Promise<ProduceResult[]> {
+  const endpoint = parameterizeEndpoint('/api/{cluster}/topic/{topicName}/data', { cluster, topicName });
+  const results: ProduceResult[] = [];
+  let failed = false;
+  for (const { index, body } of plan.messages) {
+    if (ratePerSecond && index > 0 && !failed && !signal?.aborted) {
+      await sleep(1000 / ratePerSecond, signal ?? new AbortController().signal);
+    }
+    if (failed || signal?.aborted) {
+      results.push({ index, status: 'skipped' });
+      continue;
+    }
+    try {
+      const response = await callApi(endpoint, 'POST', body, 'application/json');
+      const produced = parseJsonText(response.content[0].text);
+      const metadata = Array.isArray(produced) ? produced[0] : produced;
+      results.push({ index, status: 'produced', partition: metadata?.partition, offset: metadata?.offset });
+    } catch (error) {
+      if (!(error instanceof AkhqApiError)) {
+        throw error;
+      }
+      failed = true;
+      results.push({ index, status: 'failed', errors: error.toJSON() });
+    }
+  }
+  return results;
+}
+
+// Schema-validated production
+registerTool(
+  'produce_messages',
+  'Produce a batch of messages with structured JSON keys and values, explicit partitions and headers. Resolves the latest or a pinned version of the key and value subjects (by default <topic>-key and <topic>-value) and validates every message locally first. If any message is invalid nothing is produced and the errors are reported per message. Use validateOnly to only validate',
+  {
+    cluster: z.string(),
+    topicName: z.string(),
+    messages: z.array(produceMessageSchema).describe('Messages to produce. key and value are JSON values (or strings), headers an object or a list of {key, value}'),
+    keySubject: z.string().optional().describe('Subject of the key schema, <topic>-key when it exists'),
+    valueSubject: z.string().optional().describe('Subject of the value schema, <topic>-value when it exists'),
+    keySchemaVersion: z.number().optional().describe('Version of the key subject to validate against, the latest when omitted'),
+    valueSchemaVersion: z.number().optional().describe('Version of the value subject to validate against, the latest when omitted'),
+    partition: z.number().optional().describe('Partition for messages without their own, the default partitioner when omitted'),
+    validateOnly: z.boolean().optional().describe('Only validate the messages without producing them')
+  },
+  async (params) => {
+    try {
+      const validatedParams = produceMessagesSchema.parse(params);
+      const { cluster, topicName } = validatedParams;
+      const plan = await planProduce(validatedParams);
+      const invalid = plan.messages.filter(message => message.errors.length > 0);
+      const results: ProduceResult[] = [];
+      if (invalid.length || validatedParams.validateOnly) {
+        results.push(...plan.messages.map(({ index, errors }): ProduceResult => ({ index, status: errors.length ? 'invalid' : 'valid', ...errors.length ? { errors } : {} })));
+      } else {
+        results.push(...await sendProducePlan(cluster, topicName, plan));
+      }
+      const produced = results.filter(result => result.status === 'produced').length;
+      return {
+        isError: invalid.length > 0 || results.some(result => result.status === 'failed'),
+        content: [
+          {
+            type: 'text',
+            text: redactSecrets(JSON.stringify({
+              ...describeProducePlan(plan),
+              produced,
+              ...invalid.length ? { hint: 'Nothing was produced because some messages do not match the schema.' } : {},
+              results
+            }))
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  },
+  async (params) => {
+    const validatedParams = produceMessagesSchema.parse(params);
+    return {
+      topic: await topicSummary(validatedParams.cluster, validatedParams.topicName).catch(error => {
+        if (!(error instanceof AkhqApiError)) {
+          throw error;
+        }
+        return { error: error.akhqMessage, status: error.status };
+      }),
+      ...describeProducePlan(await planProduce(validatedParams))
+    };
+  }
+);
+
+// Deterministic pseudo-random numbers (mulberry32), so that a seed reproduces the same test data
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const FAKE_FIRST_NAMES = ['Alice', 'Bob', 'Carla', 'David', 'Emma', 'Farid', 'Grace', 'Hiro', 'Ines', 'Jonas', 'Kaja', 'Liam', 'Mia', 'Noah', 'Olga', 'Pedro'];
+const FAKE_LAST_NAMES = ['Andersson', 'Baker', 'Costa', 'Dubois', 'Evans', 'Fischer', 'Garcia', 'Hansen', 'Ito', 'Jensen', 'Kowalski', 'Lopez', 'Müller', 'Nilsson'];
+const FAKE_CITIES = ['Stockholm', 'Berlin', 'Lisbon', 'Paris', 'Oslo', 'Madrid', 'Tokyo', 'Toronto', 'Warsaw', 'Amsterdam'];
+const FAKE_COUNTRIES = ['SE', 'DE', 'PT', 'FR', 'NO', 'ES', 'JP', 'CA', 'PL', 'NL'];
+const FAKE_WORDS = ['alpha', 'blue', 'coffee', 'delta', 'ember', 'forest', 'granite', 'harbor', 'island', 'jade', 'kettle', 'lumen', 'meadow', 'nova'];
+
+interface FakeContext {
+  random: () => number;
+  sequence: number; // 1-based number of the record being generated
+  now: number; // Timestamps fall in the 30 days before this
+}
+
+// With a seed, timestamps count back from a fixed time instead of the current time, so that reruns generate the same records
+const FAKE_SEEDED_NOW = Date.UTC(2026, 0, 1);
+
+function fakeInt(context: FakeContext, min: number, max: number): number {
+  return min + Math.floor(context.random() * (max - min + 1));
+}
+
+function fakePick<T>(context: FakeContext, values: T[]): T {
+  return values[Math.floor(context.random() * values.length)];
+}
+
+function fakeUuid(context: FakeContext): string {
+  const hex = Array.from({ length: 32 }, () => Math.floor(context.random() * 16).toString(16));
+  hex[12] = '4';
+  hex[16] = '89ab'[Math.floor(context.random() * 4)];
+  return `${hex.slice(0, 8).join('')}-${hex.slice(8, 12).join('')}-${hex.slice(12, 16).join('')}-${hex.slice(16, 20).join('')}-${hex.slice(20).join('')}`;
+}
+
+function fakeTimestamp(context: FakeContext): number {
+  return context.now - fakeInt(context, 0, 30 * 24 * 3600) * 1000;
+}
+
+// Words of the last segment of a field path, split at underscores, dashes and camelCase humps, e.g. created, at for
+// createdAt. Field names are matched by whole words so that seat or paid are not taken for timestamps or ids.
+function fakeFieldWords(path: string): string[] {
+  const name = path.split(/[.[\]{}]/).filter(Boolean).pop() ?? '';
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+const INT32_MAX = 2 ** 31 - 1;
+
+// Realistic-looking text picked by the field name, e.g. an email address for a field called customerEmail
+function fakeString(context: FakeContext, path: string, format?: string): string {
+  const words = fakeFieldWords(path);
+  const last = words[words.length - 1] ?? '';
+  const has = (...candidates: string[]) => words.some(word => candidates.includes(word));
+  const firstName = fakePick(context, FAKE_FIRST_NAMES);
+  const lastName = fakePick(context, FAKE_LAST_NAMES);
+  if (format === 'email' || has('email', 'mail')) {
+    return `${firstName}.${lastName}@example.com`.toLowerCase();
+  }
+  if (format === 'date' || (!format && last === 'date')) {
+    return new Date(fakeTimestamp(context)).toISOString().slice(0, 10);
+  }
+  if (format === 'date-time' || (!format && (['at', 'time', 'timestamp', 'datetime'].includes(last) || has('timestamp')))) {
+    return new Date(fakeTimestamp(context)).toISOString();
+  }
+  if (format === 'uuid' || (!format && (has('uuid', 'guid') || last === 'id'))) {
+    return fakeUuid(context);
+  }
+  if (format === 'uri' || has('url', 'uri', 'link', 'website')) {
+    return `https://example.com/${fakePick(context, FAKE_WORDS)}/${context.sequence}`;
+  }
+  if (has('firstname') || (has('first', 'given') && has('name')) || (words.length === 1 && last === 'first')) {
+    return firstName;
+  }
+  if (has('lastname', 'surname') || (has('last', 'family') && has('name')) || (words.length === 1 && last === 'last')) {
+    return lastName;
+  }
+  if (has('name', 'fullname')) {
+    return `${firstName} ${lastName}`;
+  }
+  if (has('city')) {
+    return fakePick(context, FAKE_CITIES);
+  }
+  if (has('country')) {
+    return fakePick(context, FAKE_COUNTRIES);
+  }
+  if (has('currency')) {
+    return fakePick(context, ['EUR', 'USD', 'SEK', 'GBP', 'JPY']);
+  }
+  if (has('phone', 'mobile', 'telephone')) {
+    return `+46 70 ${fakeInt(context, 100, 999)} ${fakeInt(context, 10, 99)} ${fakeInt(context, 10, 99)}`;
+  }
+  if (has('street', 'address')) {
+    return `${fakeInt(context, 1, 200)} ${fakePick(context, FAKE_WORDS)} street`;
+  }
+  if (has('zip', 'zipcode', 'postal', 'postcode')) {
+    return String(fakeInt(context, 10000, 99999));
+  }
+  return `${fakePick(context, FAKE_WORDS)}-${fakeInt(context, 1, 9999)}`;
+}
+
+// A number in [min, max] when given, otherwise in a range picked by the field name. limit is the largest value the
+// field's type can hold, e.g. INT32_MAX for an Avro int or protobuf int32, where timestamps are given in seconds.
+function fakeNumber(context: FakeContext, path: string, integer: boolean, min?: number, max?: number, limit = Number.MAX_SAFE_INTEGER): number {
+  const words = fakeFieldWords(path);
+  const last = words[words.length - 1] ?? '';
+  const has = (...candidates: string[]) => words.some(word => candidates.includes(word));
+  let low = min ?? 0;
+  let high = Math.min(max ?? 10000, limit);
+  if (min === undefined && max === undefined) {
+    if (['at', 'time', 'timestamp', 'ts', 'epoch'].includes(last) || has('timestamp')) {
+      const timestamp = fakeTimestamp(context);
+      return timestamp > limit ? Math.floor(timestamp / 1000) : timestamp;
+    }
+    if (has('age')) {
+      [low, high] = [18, 90];
+    } else if (has('qty', 'quantity', 'count')) {
+      [low, high] = [1, 10];
+    } else if (has('price', 'amount', 'total', 'cost')) {
+      [low, high] = [1, 500];
+      if (!integer) {
+        return Math.round((low + context.random() * (high - low)) * 100) / 100;
+      }
+    } else if (last === 'id') {
+      return Math.min(context.sequence, limit);
+    }
+  }
+  return integer ? fakeInt(context, Math.ceil(low), Math.floor(high)) : Math.round((low + context.random() * (high - low)) * 1000) / 1000;
+}
+
+function fakeAvro(type: any, namespace: string | undefined, names: Map<string, any>, context: FakeContext, path: string, depth: number): any {
+  const resolved = resolveAvro(type, namespace, names);
+  const definition = resolved.type;
+  const fake = (child: any, childPath: string) => fakeAvro(child, resolved.namespace, names, context, childPath, depth + 1);
+  switch (avroKind(definition)) {
+    case 'union': {
+      const nonNull = definition.filter((branch: any) => resolveAvro(branch, resolved.namespace, names).type !== 'null');
+      const nullable = nonNull.length < definition.length;
+      // Mostly filled in, null more often the deeper the nesting
+      if (nullable && (nonNull.length === 0 || depth > 4 || context.random() < 0.15 + depth * 0.2)) {
+        return null;
+      }
+      return fake(fakePick(context, nonNull), path);
+    }
+    case 'null':
+      return null;
+    case 'boolean':
+      return context.random() < 0.5;
+    case 'int':
+      return type?.logicalType === 'date' ? Math.floor(fakeTimestamp(context) / 86400000) : fakeNumber(context, path, true, undefined, undefined, INT32_MAX);
+    case 'long':
+      return type?.logicalType?.startsWith('timestamp') ? fakeTimestamp(context) * (type.logicalType.endsWith('micros') ? 1000 : 1) : fakeNumber(context, path, true);
+    case 'float':
+    case 'double':
+      return fakeNumber(context, path, false);
+    case 'string':
+      return type?.logicalType === 'uuid' ? fakeUuid(context) : fakeString(context, path);
+    case 'bytes':
+    case 'fixed':
+      return Array.from({ length: definition.size ?? 8 }, () => String.fromCharCode(fakeInt(context, 97, 122))).join('');
+    case 'enum':
+      return fakePick(context, definition.symbols ?? []);
+    case 'array':
+      return depth > 4 ? [] : Array.from({ length: fakeInt(context, 1, 3) }, (_, index) => fake(definition.items, `${path}[${index}]`));
+    case 'map':
+      return depth > 4 ? {} : Object.fromEntries(Array.from({ length: fakeInt(context, 1, 2) }, (_, index) => [`key${index + 1}`, fake(definition.values, `${path}.key${index + 1}`)]));
+    case 'record':
+      return Object.fromEntries((definition.fields ?? []).map((field: any) => [
+        field.name,
+        depth > 4 && 'default' in field ? field.default : fake(field.type, path ? `${path}.${field.name}` : field.name)
+      ]));
+    default:
+      return null;
+  }
+}
+
+function fakeJsonSchema(node: any, root: any, context: FakeContext, path: string, depth: number): any {
+  const schema = jsonSchemaRef(node, root);
+  if (schema === true || schema === undefined || schema === false) {
+    return fakeString(context, path);
+  }
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (schema.enum) {
+    return fakePick(context, schema.enum);
+  }
+  if (schema.anyOf || schema.oneOf) {
+    const { anyOf, oneOf, ...rest } = schema;
+    return fakeJsonSchema({ ...rest, ...jsonSchemaRef(fakePick(context, anyOf ?? oneOf), root) }, root, context, path, depth);
+  }
+  if (schema.allOf) {
+    const { allOf, ...rest } = schema;
+    const merged = allOf.map((branch: any) => jsonSchemaRef(branch, root)).reduce((result: any, branch: any) => ({
+      ...result,
+      ...branch,
+      properties: { ...result.properties, ...branch.properties },
+      required: [...result.required ?? [], ...branch.required ?? []]
+    }), rest);
+    return fakeJsonSchema(merged, root, context, path, depth);
+  }
+  const types = jsonSchemaTypes(schema) ?? ['string'];
+  const type = types.find((candidate: string) => candidate !== 'null') ?? 'null';
+  switch (type) {
+    case 'null':
+      return null;
+    case 'boolean':
+      return context.random() < 0.5;
+    case 'integer':
+    case 'number': {
+      const min = schema.minimum ?? (typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum + (type === 'integer' ? 1 : 0.001) : undefined);
+      const max = schema.maximum ?? (typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum - (type === 'integer' ? 1 : 0.001) : undefined);
+      return fakeNumber(context, path, type === 'integer', min, max);
+    }
+    case 'array': {
+      const length = depth > 4 ? schema.minItems ?? 0 : fakeInt(context, schema.minItems ?? 1, Math.max(schema.minItems ?? 1, Math.min(schema.maxItems ?? 3, 3)));
+      return Array.from({ length }, (_, index) => fakeJsonSchema(Array.isArray(schema.items) ? schema.items[index] : schema.items, root, context, `${path}[${index}]`, depth + 1));
+    }
+    case 'object': {
+      const required: string[] = schema.required ?? [];
+      return Object.fromEntries(Object.entries<any>(schema.properties ?? {})
+        .filter(([property]) => required.includes(property) || depth <= 4)
+        .map(([property, child]) => [property, fakeJsonSchema(child, root, context, path ? `${path}.${property}` : property, depth + 1)]));
+    }
+    default: {
+      let text = fakeString(context, path, schema.format);
+      if (schema.maxLength !== undefined) {
+        text = text.slice(0, schema.maxLength);
+      }
+      return schema.minLength !== undefined ? text.padEnd(schema.minLength, 'x') : text;
+    }
+  }
+}
+
+function fakeProto(schema: ProtoSchema, messageName: string, context: FakeContext, path: string, depth: number): any {
+  const scalar = (type: string, fieldPath: string): any => {
+    if (schema.messages.has(type)) {
+      return depth > 4 ? {} : fakeProto(schema, type, context, fieldPath, depth + 1);
+    }
+    if (schema.enums.has(type)) {
+      return fakePick(context, schema.enums.get(type)!);
+    }
+    if (PROTO_INT32.includes(type)) {
+      return fakeNumber(context, fieldPath, true, type.startsWith('u') || type.startsWith('fixed') ? 0 : undefined, undefined, INT32_MAX);
+    }
+    if (PROTO_INT64.includes(type)) {
+      return String(fakeNumber(context, fieldPath, true)); // The protobuf JSON mapping renders 64-bit integers as strings
+    }
+    switch (type) {
+      case 'float':
+      case 'double':
+        return fakeNumber(context, fieldPath, false);
+      case 'bool':
+        return context.random() < 0.5;
+      case 'bytes':
+        return Buffer.from(fakeString(context, fieldPath)).toString('base64');
+      case 'string':
+        return fakeString(context, fieldPath);
+      default:
+        return {}; // Imported and well-known types
+    }
+  };
+  const message: Record<string, any> = {};
+  const oneofs = new Set<string>();
+  for (const field of schema.messages.get(messageName) ?? []) {
+    if (field.oneof && oneofs.has(field.oneof)) {
+      continue;
+    }
+    const key = field.name.replace(/_([a-z0-9])/g, (_, letter) => letter.toUpperCase());
+    const fieldPath = path ? `${path}.${field.name}` : field.name;
+    if (field.map) {
+      const valueType = field.type.slice(field.type.indexOf(',') + 1, -1).trim();
+      message[key] = Object.fromEntries(Array.from({ length: fakeInt(context, 1, 2) }, (_, index) => [`key${index + 1}`, scalar(valueType, `${fieldPath}.key${index + 1}`)]));
+    } else if (field.label === 'repeated') {
+      message[key] = depth > 4 ? [] : Array.from({ length: fakeInt(context, 1, 3) }, (_, index) => scalar(field.type, `${fieldPath}[${index}]`));
+    } else {
+      message[key] = scalar(field.type, fieldPath);
+    }
+    if (field.oneof) {
+      oneofs.add(field.oneof);
+    }
+  }
+  return message;
+}
+
+function fakeRecord(schema: ParsedSchema, context: FakeContext): any {
+  if (schema.avro) {
+    return fakeAvro(schema.avro.root, undefined, schema.avro.names, context, '', 0);
+  }
+  if (schema.proto) {
+    const topLevel = [...schema.proto.messages.keys()].find(name => !name.includes('.'));
+    return topLevel ? fakeProto(schema.proto, topLevel, context, '', 0) : {};
+  }
+  return fakeJsonSchema(schema.json, schema.json, context, '', 0);
+}
+
+// Sets a dotted path in generated data. Strings may contain {i} for the 1-based number of the record.
+function applyOverride(target: any, path: string, value: any, sequence: number): any {
+  const resolved = typeof value === 'string' ? value.replace(/\{i\}/g, String(sequence)) : value;
+  if (!path) {
+    return resolved;
+  }
+  const keys = path.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(node[key])) {
+      node[key] = {};
+    }
+    node = node[key];
+  }
+  node[keys[keys.length - 1]] = resolved;
+  return target;
+}
+
+function valueAtPath(target: any, path: string): any {
+  return path.split('.').reduce((node, key) => node?.[key], target);
+}
+
+const generateTestDataSchema = z.object({
+  cluster: z.string(),
+  topicName: z.string(),
+  count: z.number().int().min(1).max(1000),
+  subject: z.string().optional(),
+  schemaVersion: z.number().optional(),
+  seed: z.number().int().optional(),
+  overrides: z.record(z.any()).optional(),
+  keyStrategy: z.enum(['schema', 'uuid', 'sequence', 'field', 'none']).optional(),
+  keyField: z.string().optional(),
+  keyPrefix: z.string().optional(),
+  partition: z.number().optional(),
+  dryRun: z.boolean().optional()
+});
+
+type GenerateTestDataParams = z.infer<typeof generateTestDataSchema>;
+
+interface TestDataPin {
+  seed: number;
+  now: number;
+}
+
+// The seed and clock of a run. Without a seed, a random one is picked and reported so that the data can be reproduced.
+function testDataPin(params: GenerateTestDataParams): TestDataPin {
+  return params.seed === undefined
+    ? { seed: Math.floor(Math.random() * 2 ** 31), now: Date.now() }
+    : { seed: params.seed, now: FAKE_SEEDED_NOW };
+}
+
+// Generates the records and plans their production. A confirmed run reuses the seed and clock of its preview, so that
+// it produces the records that were previewed.
+async function planTestData(params: GenerateTestDataParams, pin: TestDataPin = testDataPin(params)) {
+  const { cluster, topicName, count } = params;
+  const subject = params.subject ?? `${topicName}-value`;
+  const valueSchema = (await subjectSchema(cluster, subject, params.schemaVersion, true))!;
+  const keySchema = await subjectSchema(cluster, `${topicName}-key`, undefined, false);
+  const keyStrategy = params.keyStrategy ?? (keySchema ? 'schema' : 'uuid');
+  if (keyStrategy === 'field' && !params.keyField) {
+    throw new z.ZodError([{ code: 'custom', path: ['keyField'], message: 'keyField is required for keyStrategy field' }]);
+  }
+  if (keyStrategy === 'schema' && !keySchema) {
+    throw new z.ZodError([{ code: 'custom', path: ['keyStrategy'], message: `Subject ${topicName}-key does not exist, use another keyStrategy` }]);
+  }
+  const { seed, now } = pin;
+  const random = seededRandom(seed);
+  const messages = Array.from({ length: count }, (_, index) => {
+    const context = { random, sequence: index + 1, now };
+    let value = fakeRecord(valueSchema.parsed, context);
+    for (const [path, override] of Object.entries(params.overrides ?? {})) {
+      value = applyOverride(value, path, override, context.sequence);
+    }
+    const key = keyStrategy === 'schema' ? fakeRecord(keySchema!.parsed, context)
+      : keyStrategy === 'uuid' ? fakeUuid(context)
+      : keyStrategy === 'sequence' ? `${params.keyPrefix ?? ''}${context.sequence}`
+      : keyStrategy === 'field' ? valueAtPath(value, params.keyField!)
+      : undefined;
+    return { key: keyStrategy === 'field' && key !== undefined && typeof key !== 'string' ? JSON.stringify(key) : key, value };
+  });
+  const plan = await planProduce({
+    cluster,
+    topicName,
+    messages,
+    valueSubject: subject,
+    valueSchemaVersion: params.schemaVersion,
+    ...keyStrategy === 'schema' ? { keySubject: keySchema!.subject } : {},
+    partition: params.partition
+  });
+  return { seed, keyStrategy, messages, plan };
+}
+
+// Synthetic test data
+registerTool(
+  'generate_test_data',
+  'Generate realistic fake records that conform to a registered schema (Avro, JSON Schema or Protobuf) and produce them to a topic. Supports a deterministic seed, field overrides by dotted path (strings may use {i} for the record number) and key strategies: schema (from <topic>-key), uuid, sequence, field (a value field) or none. Use dryRun to only see the records',
+  {
+    cluster: z.string(),
+    topicName: z.string(),
+    count: z.number().describe('Number of records to generate, at most 1000'),
+    subject: z.string().optional().describe('Subject of the value schema, <topic>-value when omitted'),
+    schemaVersion: z.number().optional().describe('Version of the subject, the latest when omitted'),
+    seed: z.number().optional().describe('Seed for reproducible data, random when omitted and returned in the result'),
+    overrides: z.record(z.any()).optional().describe('Fixed values by dotted field path, e.g. {"customer.country": "SE", "orderId": "order-{i}"}'),
+    keyStrategy: z.enum(['schema', 'uuid', 'sequence', 'field', 'none']).optional().describe('How to generate keys, schema when <topic>-key exists and uuid otherwise'),
+    keyField: z.string().optional().describe('Dotted path of the value field to use as key with keyStrategy field'),
+    keyPrefix: z.string().optional().describe('Prefix of the keys with keyStrategy sequence'),
+    partition: z.number().optional().describe('Partition to produce to, the default partitioner when omitted'),
+    dryRun: z.boolean().optional().describe('Only return the generated records without producing them')
+  },
+  async (params, extra, pinned?: TestDataPin) => {
+    try {
+      const validatedParams = generateTestDataSchema.parse(params);
+      const { seed, keyStrategy, messages, plan } = await planTestData(validatedParams, pinned);
+      const invalid = plan.messages.filter(message => message.errors.length > 0);
+      const summary = { seed, keyStrategy, ...describeProducePlan(plan) };
+      if (validatedParams.dryRun || invalid.length) {
+        return {
+          isError: invalid.length > 0,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                ...summary,
+                ...invalid.length ? { hint: 'Nothing was produced because some generated records do not match the schema, check the overrides.' } : {},
+                records: messages.slice(0, 50),
+                ...messages.length > 50 ? { recordsOmitted: messages.length - 50 } : {}
+              })
+            }
+          ]
+        };
+      }
+      const results = await sendProducePlan(validatedParams.cluster, validatedParams.topicName, plan);
+      return {
+        isError: results.some(result => result.status === 'failed'),
+        content: [
+          {
+            type: 'text',
+            text: redactSecrets(JSON.stringify({
+              ...summary,
+              produced: results.filter(result => result.status === 'produced').length,
+              failed: results.filter(result => result.status !== 'produced'),
+              samples: messages.slice(0, 3)
+            }))
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  },
+  async (params) => {
+    const validatedParams = generateTestDataSchema.parse(params);
+    const pinned = testDataPin(validatedParams);
+    const { seed, keyStrategy, messages, plan } = await planTestData(validatedParams, pinned);
+    return {
+      seed,
+      keyStrategy,
+      ...describeProducePlan(plan),
+      samples: messages.slice(0, 3),
+      pinned
+    };
+  }
+);
+
+// AKHQ returns the next page of topic data as a URL; the after parameter of that URL is the cursor to pass back
+function nextDataCursor(next: string | null | undefined): string | undefined {
+  if (!next) {
+    return undefined;
+  }
+  return next.includes('after=') ? new URL(next, 'http://akhq').searchParams.get('after') ?? undefined : next;
+}
+
+const topicDataFilterShape = {
+  partition: z.number().optional(),
+  timestamp: z.string().optional(),
+  endTimestamp: z.string().optional(),
+  searchByKey: z.string().optional(),
+  searchByValue: z.string().optional(),
+  searchByHeaderKey: z.string().optional(),
+  searchByHeaderValue: z.string().optional()
+};
+
+type TopicDataFilters = z.infer<z.ZodObject<typeof topicDataFilterShape>>;
+
+// Reads records oldest first through the after cursor of get_topic_data until maxRecords or the end of the data
+async function readTopicRecords(cluster: string, topicName: string, filters: TopicDataFilters, maxRecords: number) {
+  const records: any[] = [];
+  let after: string | undefined;
+  let exhausted = false;
+  while (records.length < maxRecords) {
+    const data = await getJson(parameterizeEndpoint('/api/{cluster}/topic/{topicName}/data', { cluster, topicName, ...filters, sort: 'OLDEST', after }, [...Object.keys(topicDataFilterShape), 'sort', 'after']));
+    const results: any[] = data.results ?? [];
+    records.push(...results);
+    after = nextDataCursor(data.after);
+    if (results.length === 0 || !after) {
+      exhausted = true;
+      break;
+    }
+  }
+  return { records: records.slice(0, maxRecords), truncated: !exhausted || records.length > maxRecords };
+}
+
+function recordHeaders(record: any): [string, string][] {
+  const headers = record.headers ?? [];
+  return Array.isArray(headers) ? headers.map((header: any) => [header.key, header.value]) : Object.entries(headers);
+}
+
+// JSONPath-style lookup such as $.value.order.lines[0].sku on a record
+function jsonPathValue(source: any, path: string): any {
+  const segments = path.replace(/^\$\.?/, '').match(/[^.[\]]+/g) ?? [];
+  return segments.reduce((node, segment) => node?.[segment], source);
+}
+
+// Mapping templates are JSON in which strings starting with $ are replaced by the value at that path of the source record
+function resolveTemplate(template: any, source: any): any {
+  if (typeof template === 'string') {
+    return template.startsWith('$') ? jsonPathValue(source, template) : template;
+  }
+  if (Array.isArray(template)) {
+    return template.map(item => resolveTemplate(item, source));
+  }
+  if (isPlainObject(template)) {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, resolveTemplate(value, source)]));
+  }
+  return template;
+}
+
+const replayMappingSchema = z.object({
+  key: z.any().optional(),
+  value: z.any().optional(),
+  headers: z.record(z.any()).optional()
+});
+
+const replayMessagesSchema = z.object({
+  cluster: z.string(),
+  topicName: z.string(),
+  targetTopic: z.string(),
+  targetCluster: z.string().optional(),
+  targetInstance: z.string().optional(),
+  ...topicDataFilterShape,
+  mapping: replayMappingSchema.optional(),
+  removeHeaders: z.array(z.string()).optional(),
+  keySubject: z.string().optional(),
+  valueSubject: z.string().optional(),
+  preservePartition: z.boolean().optional(),
+  maxMessages: z.number().int().min(1).max(10000).optional(),
+  ratePerSecond: z.number().positive().optional(),
+  dryRun: z.boolean().optional()
+});
+
+type ReplayMessagesParams = z.infer<typeof replayMessagesSchema>;
+
+// Last offset read per source partition. A confirmed replay stops there, so records that arrived after the preview are not replayed.
+type ReplayPin = Record<string, number>;
+
+// Reads and maps the records to replay, and plans their production on the target cluster and instance
+async function planReplay(params: ReplayMessagesParams, throughOffsets?: ReplayPin) {
+  const { cluster, topicName, targetTopic, mapping, removeHeaders = [], maxMessages = 1000 } = params;
+  const { partition, timestamp, endTimestamp, searchByKey, searchByValue, searchByHeaderKey, searchByHeaderValue } = params;
+  const target = params.targetInstance ? getInstance(params.targetInstance, 'targetInstance') : currentInstance();
+  const targetCluster = params.targetCluster ?? (params.targetInstance ? target.defaultCluster : cluster);
+  if (!targetCluster) {
+    throw new z.ZodError([{ code: 'custom', path: ['targetCluster'], message: `targetCluster is required, instance ${target.name} has no default cluster` }]);
+  }
+  const filters: TopicDataFilters = { partition, timestamp, endTimestamp, searchByKey, searchByValue, searchByHeaderKey, searchByHeaderValue };
+  const read = await readTopicRecords(cluster, topicName, filters, maxMessages);
+  const records = throughOffsets ? read.records.filter(record => record.offset <= (throughOffsets[record.partition] ?? -1)) : read.records;
+  const truncated = read.truncated && records.length === read.records.length;
+  const removed = removeHeaders.map(globToRegExp);
+  const messages = records.map(record => {
+    const headers = recordHeaders(record);
+    const source = {
+      key: typeof record.key === 'string' ? parseJsonStructure(record.key) : record.key,
+      value: typeof record.value === 'string' ? parseJsonStructure(record.value) : record.value,
+      headers: Object.fromEntries(headers),
+      partition: record.partition,
+      offset: record.offset,
+      timestamp: record.timestamp,
+      topic: topicName
+    };
+    const mappedHeaders = new Map(headers.filter(([key]) => !removed.some(pattern => pattern.test(key))));
+    for (const [key, template] of Object.entries(mapping?.headers ?? {})) {
+      const value = resolveTemplate(template, source);
+      if (value === null || value === undefined) {
+        mappedHeaders.delete(key);
+      } else {
+        mappedHeaders.set(key, typeof value === 'string' ? value : JSON.stringify(value));
+      }
+    }
+    return {
+      key: mapping?.key !== undefined ? resolveTemplate(mapping.key, source) : record.key,
+      value: mapping?.value !== undefined ? resolveTemplate(mapping.value, source) : record.value,
+      headers: [...mappedHeaders].map(([key, value]) => ({ key, value })),
+      ...params.preservePartition ? { partition: record.partition } : {}
+    };
+  });
+  const plan = messages.length === 0 ? undefined : await withInstance(target, () => planProduce({
+    cluster: targetCluster,
+    topicName: targetTopic,
+    messages,
+    keySubject: params.keySubject,
+    valueSubject: params.valueSubject
+  }));
+  return { cluster, topicName, target, targetCluster, records, truncated, messages, plan };
+}
+
+function replayPin(records: any[]): ReplayPin {
+  const throughOffsets: ReplayPin = {};
+  for (const record of records) {
+    throughOffsets[record.partition] = Math.max(throughOffsets[record.partition] ?? -1, record.offset);
+  }
+  return throughOffsets;
+}
+
+function describeReplay(replay: Awaited<ReturnType<typeof planReplay>>) {
+  return {
+    source: { cluster: replay.cluster, topic: replay.topicName, matched: replay.records.length, truncated: replay.truncated, throughOffsets: replayPin(replay.records) },
+    target: { instance: replay.target.name, cluster: replay.targetCluster },
+    ...replay.plan ? describeProducePlan(replay.plan) : {},
+    samples: replay.messages.slice(0, 3)
+  };
+}
+
+// Message replay
+registerTool(
+  'replay_messages',
+  'Replay messages from a source topic to a target topic on the same or another cluster or AKHQ instance, e.g. to re-drive a dead-letter queue. Selects records with the get_topic_data search filters and a time range, optionally rewrites keys, values and headers with a mapping, and produces them oldest first with an optional rate limit. Use dryRun to only count the matching records and see mapped samples',
+  {
+    cluster: z.string(),
+    topicName: z.string().describe('Source topic'),
+    targetTopic: z.string(),
+    targetCluster: z.string().optional().describe('Target cluster, the source cluster (or the default cluster of targetInstance) when omitted'),
+    targetInstance: z.string().optional().describe('AKHQ instance of the target cluster, the source instance when omitted'),
+    partition: z.number().optional().describe('Only replay this source partition'),
+    timestamp: z.string().optional().describe('Start of the time range, ISO 8601'),
+    endTimestamp: z.string().optional().describe('End of the time range, ISO 8601'),
+    searchByKey: z.string().optional(),
+    searchByValue: z.string().optional(),
+    searchByHeaderKey: z.string().optional(),
+    searchByHeaderValue: z.string().optional(),
+    mapping: replayMappingSchema.optional().describe('Templates for the new key, value and headers. Strings starting with $ are paths in the source record, e.g. {"value": "$.value.payload", "headers": {"replayed-from": "$.topic", "x-error": null}}; a null header removes it'),
+    removeHeaders: z.array(z.string()).optional().describe('Glob patterns of headers to drop, e.g. ["__connect.errors.*"]'),
+    keySubject: z.string().optional().describe('Key subject of the target, <targetTopic>-key when it exists'),
+    valueSubject: z.string().optional().describe('Value subject of the target, <targetTopic>-value when it exists'),
+    preservePartition: z.boolean().optional().describe('Produce each record to the partition number it was read from'),
+    maxMessages: z.number().optional().describe('Maximum number of records to replay (default 1000, at most 10000)'),
+    ratePerSecond: z.number().optional().describe('Maximum number of messages produced per second'),
+    dryRun: z.boolean().optional().describe('Only count the matching records and return mapped samples')
+  },
+  async (params, extra, pinned?: ReplayPin) => {
+    try {
+      const validatedParams = replayMessagesSchema.parse(params);
+      const replay = await planReplay(validatedParams, pinned);
+      const invalid = replay.plan?.messages.filter(message => message.errors.length > 0) ?? [];
+      if (validatedParams.dryRun || invalid.length || !replay.plan) {
+        return {
+          isError: invalid.length > 0,
+          content: [
+            {
+              type: 'text',
+              text: redactSecrets(JSON.stringify({
+                ...describeReplay(replay),
+                ...invalid.length ? { hint: 'Nothing was replayed because some mapped messages do not match the target schema.' } : {}
+              }))
+            }
+          ]
+        };
+      }
+      const plan = replay.plan;
+      const results = await withInstance(replay.target, () => sendProducePlan(replay.targetCluster, validatedParams.targetTopic, plan, validatedParams.ratePerSecond, extra.signal));
+      return {
+        isError: results.some(result => result.status === 'failed'),
+        content: [
+          {
+            type: 'text',
+            text: redactSecrets(JSON.stringify({
+              ...describeReplay(replay),
+              produced: results.filter(result => result.status === 'produced').length,
+              notProduced: results.filter(result => result.status !== 'produced').map(result => ({
+                ...result,
+                sourcePartition: replay.records[result.index].partition,
+                sourceOffset: replay.records[result.index].offset
+              }))
+            }))
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  },
+  async (params) => {
+    const validatedParams = replayMessagesSchema.parse(params);
+    const replay = await planReplay(validatedParams);
+    return { ...describeReplay(replay), pinned: replayPin(replay.records) };
+  }
+);
+
+// Headers that dead-letter queue producers write about the failed record. Kafka Connect writes text, Spring Kafka
+// writes the original partition and offset as big-endian binary numbers.
+const DLQ_HEADER_FORMATS = [
+  {
+    source: 'Kafka Connect',
+    prefix: '__connect.errors.',
+    exceptionClass: '__connect.errors.exception.class.name',
+    message: '__connect.errors.exception.message',
+    topic: '__connect.errors.topic',
+    partition: '__connect.errors.partition',
+    offset: '__connect.errors.offset',
+    binaryNumbers: false,
+    origin: ['__connect.errors.connector.name', '__connect.errors.stage']
+  },
+  {
+    source: 'Spring Kafka',
+    prefix: 'kafka_dlt-',
+    exceptionClass: 'kafka_dlt-exception-fqcn',
+    message: 'kafka_dlt-exception-message',
+    topic: 'kafka_dlt-original-topic',
+    partition: 'kafka_dlt-original-partition',
+    offset: 'kafka_dlt-original-offset',
+    binaryNumbers: true,
+    origin: ['kafka_dlt-original-consumer-group', 'kafka_dlt-exception-cause-fqcn']
+  }
+];
+
+const DLQ_TOPIC_PATTERN = /([._-](dlq|dlt)|dead[._-]?letter)$/i;
+
+// A header number as text, or for a format that writes binary numbers as the 4 or 8 big-endian bytes of an int or long.
+// AKHQ renders header bytes as UTF-8 text, so a byte of 0x80 or more comes back as U+FFFD and the number is lost.
+function headerNumber(value: string | undefined, binary: boolean): { number: number | null; undecodable: boolean } {
+  if (value === undefined || value === null) {
+    return { number: null, undecodable: false };
+  }
+  const bytes = [...value].map(char => char.charCodeAt(0));
+  if (binary && (bytes.length === 4 || bytes.length === 8)) {
+    return bytes.every(byte => byte < 0x80)
+      ? { number: bytes.reduce((number, byte) => number * 256 + byte, 0), undecodable: false }
+      : { number: null, undecodable: true };
+  }
+  return /^-?\d+$/.test(value) ? { number: Number(value), undecodable: false } : { number: null, undecodable: true };
+}
+
+// Groups similar error messages by masking the parts that differ between records, such as ids, numbers and quoted values
+function normalizeErrorMessage(message: string): string {
+  return message
+    .split('\n')[0]
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+    .replace(/'[^']*'|"[^"]*"/g, '<value>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\d+/g, '<n>')
+    .slice(0, 200);
+}
+
+interface DlqErrorClass {
+  source: string;
+  exceptionClass: string;
+  message: string;
+  count: number;
+  firstSeen: number | null;
+  lastSeen: number | null;
+  origins: Set<string>;
+  undecodable: Map<string, number>; // Partition and offset headers that could not be read as numbers, with their record count
+  originals: Map<string, { topic: string; partition: number | null; minOffset: number | null; maxOffset: number | null; count: number }>;
+  sample: any;
+}
+
+function triageRecord(record: any) {
+  const headers = new Map(recordHeaders(record));
+  const format = DLQ_HEADER_FORMATS.find(candidate => [...headers.keys()].some(key => key.startsWith(candidate.prefix)));
+  if (!format) {
+    const errorHeader = [...headers].find(([key]) => /exception|error/i.test(key));
+    return {
+      source: 'unknown',
+      exceptionClass: errorHeader ? errorHeader[0] : '(no error headers)',
+      message: errorHeader?.[1] ?? '',
+      topic: null,
+      partition: null,
+      offset: null,
+      origin: [],
+      undecodable: []
+    };
+  }
+  const partition = headerNumber(headers.get(format.partition), format.binaryNumbers);
+  const offset = headerNumber(headers.get(format.offset), format.binaryNumbers);
+  return {
+    source: format.source,
+    exceptionClass: headers.get(format.exceptionClass) ?? '(unknown exception)',
+    message: headers.get(format.message) ?? '',
+    topic: headers.get(format.topic) ?? null,
+    partition: partition.number,
+    offset: offset.number,
+    origin: format.origin.map(key => headers.get(key)).filter(Boolean) as string[],
+    undecodable: [...partition.undecodable ? [format.partition] : [], ...offset.undecodable ? [format.offset] : []]
+  };
+}
+
+function truncateText(value: any, length: number): any {
+  return typeof value === 'string' && value.length > length ? `${value.slice(0, length)}...` : value;
+}
+
+function formatTimestamp(value: any): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString();
+}
+
+// Dead-letter queue triage
+registerTool(
+  'triage_dlq',
+  'Triage a dead-letter queue topic: groups its records by the error headers written by Kafka Connect (__connect.errors.*) or Spring Kafka (kafka_dlt-*) into error classes, with counts, first and last seen, the original topics, partitions and offsets, and a sample record per class. Without topicName, lists the topics that look like dead-letter queues (*.DLQ, *-dlt, ...) with their message counts',
+  {
+    cluster: z.string(),
+    topicName: z.string().optional().describe('Dead-letter queue topic, lists candidate topics when omitted'),
+    partition: z.number().optional(),
+    timestamp: z.string().optional().describe('Only records from this time on, ISO 8601'),
+    endTimestamp: z.string().optional().describe('Only records up to this time, ISO 8601'),
+    maxMessages: z.number().optional().describe('Maximum number of records to read (default 1000, at most 10000)')
+  },
+  async (params) => {
+    try {
+      const validatedParams = z.object({
+    cluster: z.string(),
+    topicName: z.string().optional(),
+    partition: z.number().optional(),
+    timestamp: z.string().optional(),
+    endTimestamp: z.string().optional(),
+    maxMessages: z.number().int().min(1).max(10000).optional()
+  }).parse(params);
+      const { cluster, topicName, maxMessages = 1000, ...filters } = validatedParams;
+      if (!topicName) {
+        const names: string[] = await getJson(parameterizeEndpoint('/api/{cluster}/topic/name', { cluster, show: 'HIDE_INTERNAL' }, ['show']));
+        const candidates = names.filter(name => DLQ_TOPIC_PATTERN.test(name));
+        const rows: any[][] = [];
+        for (const name of candidates.slice(0, 50)) {
+          const summary = await topicSummary(cluster, name);
+          rows.push([name, summary.messages, name.replace(DLQ_TOPIC_PATTERN, ''), summary.consumerGroups.join(', ') || null]);
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: candidates.length
+                ? [`${candidates.length} topic(s) look like dead-letter queues${candidates.length > 50 ? ', showing the first 50' : ''}:`, '', formatTable(['topic', 'messages', 'likely source topic', 'consumer groups'], rows)].join('\n')
+                : 'No topic looks like a dead-letter queue (*.DLQ, *-dlt, *_dead_letter, ...). Pass topicName to triage a topic with another name.'
+            }
+          ]
+        };
+      }
+      const { records, truncated } = await readTopicRecords(cluster, topicName, filters, maxMessages);
+      const classes = new Map<string, DlqErrorClass>();
+      for (const record of records) {
+        const error = triageRecord(record);
+        const message = normalizeErrorMessage(error.message);
+        const classKey = `${error.source}|${error.exceptionClass}|${message}`;
+        const timestamp = record.timestamp === undefined || record.timestamp === null ? null : new Date(record.timestamp).getTime();
+        if (!classes.has(classKey)) {
+          classes.set(classKey, {
+            source: error.source,
+            exceptionClass: error.exceptionClass,
+            message,
+            count: 0,
+            firstSeen: null,
+            lastSeen: null,
+            origins: new Set(),
+            undecodable: new Map(),
+            originals: new Map(),
+            sample: {
+              dlqPartition: record.partition,
+              dlqOffset: record.offset,
+              originalTopic: error.topic,
+              originalPartition: error.partition,
+              originalOffset: error.offset,
+              message: truncateText(error.message, 500),
+              key: truncateText(record.key, 200),
+              value: truncateText(record.value, 500)
+            }
+          });
+        }
+        const errorClass = classes.get(classKey)!;
+        errorClass.count++;
+        if (timestamp !== null && !Number.isNaN(timestamp)) {
+          errorClass.firstSeen = errorClass.firstSeen === null ? timestamp : Math.min(errorClass.firstSeen, timestamp);
+          errorClass.lastSeen = errorClass.lastSeen === null ? timestamp : Math.max(errorClass.lastSeen, timestamp);
+        }
+        error.origin.forEach(origin => errorClass.origins.add(origin));
+        error.undecodable.forEach(header => increment(errorClass.undecodable, header));
+        if (error.topic) {
+          const originalKey = `${error.topic}|${error.partition}`;
+          const original = errorClass.originals.get(originalKey) ?? { topic: error.topic, partition: error.partition, minOffset: null, maxOffset: null, count: 0 };
+          original.count++;
+          if (error.offset !== null) {
+            original.minOffset = original.minOffset === null ? error.offset : Math.min(original.minOffset, error.offset);
+            original.maxOffset = original.maxOffset === null ? error.offset : Math.max(original.maxOffset, error.offset);
+          }
+          errorClass.originals.set(originalKey, original);
+        }
+      }
+      const sorted = [...classes.values()].sort((a, b) => b.count - a.count);
+      const lines = [
+        `# Dead-letter queue ${topicName}: ${records.length} record(s)${truncated ? ` (limited to ${maxMessages}, more records match)` : ''} in ${sorted.length} error class(es)`,
+        '',
+        ...sorted.length ? [formatTable(
+          ['#', 'source', 'exception', 'message', 'count', 'first seen', 'last seen'],
+          sorted.map((errorClass, index) => [index + 1, errorClass.source, errorClass.exceptionClass, errorClass.message || null, errorClass.count, formatTimestamp(errorClass.firstSeen), formatTimestamp(errorClass.lastSeen)])
+        )] : ['The topic has no records in the selected range.']
+      ];
+      sorted.forEach((errorClass, index) => {
+        const originals = [...errorClass.originals.values()].sort((a, b) => b.count - a.count);
+        lines.push(
+          '',
+          `## ${index + 1}. ${errorClass.exceptionClass}`,
+          ...errorClass.origins.size ? [`Raised by: ${[...errorClass.origins].join(', ')}`] : [],
+          ...errorClass.undecodable.size ? [
+            `Not decodable as numbers: ${[...errorClass.undecodable].map(([header, count]) => `${header} in ${count} record(s)`).join(', ')}. AKHQ renders header bytes as UTF-8 text, so binary numbers with a byte of 0x80 or more are lost.`
+          ] : [],
+          ...originals.length ? [
+            'Original records:',
+            formatTable(['topic', 'partition', 'offsets', 'count'], originals.slice(0, 10).map(original => [
+              original.topic,
+              original.partition,
+              original.minOffset === original.maxOffset ? original.minOffset : `${original.minOffset}-${original.maxOffset}`,
+              original.count
+            ])),
+            ...originals.length > 10 ? [`... and ${originals.length - 10} more partition(s)`] : []
+          ] : [],
+          `Sample: ${JSON.stringify(errorClass.sample)}`
+        );
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: redactSecrets(lines.join('\n'))
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: 'Validation error', details: error.errors })
+            }
+          ]
+        };
+      }
+      throw error;
+    }
+  }
+);
+
+const STATS_BUCKETS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
+function percentile(sorted: number[], fraction: number): number | null {
+  return sorted.length ? sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)] : null;
+}
+
+function byteLength(value: any): number {
+  if (value === null || value === undefined) {
+    return 0;
+  }
+  return Buffer.byteLength(typeof value === 'string' ? value : JSON.stringify(value));
+}
+
+// Serialized size of the key or value as read from Kafka, AKHQ reports -1 for a null key or value.
+// Without it, e.g. on older AKHQ versions, falls back to the size of the text AKHQ rendered.
+function recordSize(record: any, part: 'key' | 'value'): { bytes: number; rendered: boolean } {
+  const size = part === 'key' ? record.sizeKey : record.sizeValue;
+  return typeof size === 'number' ? { bytes: Math.max(size, 0), rendered: false } : { bytes: byteLength(record[part]), rendered: true };
+}
+
+// Group label of a field value. Strings that read as another JSON value keep their quotes, so "1" and 1 are separate groups.
+function groupLabel(field: any): string {
+  if (field === undefined) {
+    return '(missing)';
+  }
+  return typeof field === 'string' && typeof parseJsonText(field) === 'string' ? field : JSON.stringify(field);
+}
+
+function share(count: number, total: number): string {
+  return total ? `${(100 * count / total).toFixed(1)}%` : '-';
+}
+
+function formatRate(count: number, milliseconds: number): string {
+  const perSecond = count / (milliseconds / 1000);
+  if (perSecond >= 1 || perSecond === 0) {
+    return `${perSecond.toFixed(2)}/s`;
+  }
+  return perSecond * 60 >= 1 ? `${(perSecond * 60).toFixed(2)}/min` : `${(perSecond * 3600).toFixed(2)}/h`;
+}
+
+// Counts occurrences and returns the most frequent values first
+function topCounts(counts: Map<string, number>, limit: number): [string, number][] {
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, limit);
+}
+
+function increment(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+const MAX_RATE_BUCKETS = 100;
+
+function bucketCount(size: number, from: number, to: number): number {
+  return Math.floor(to / size) - Math.floor(from / size) + 1;
+}
+
+// Picks the smallest bucket that keeps the rate table at about 24 rows. A requested bucket that would need more than
+// MAX_RATE_BUCKETS rows is widened to the smallest one that does not, up to a day.
+function statsBucket(bucket: string, from: number, to: number): { name: string; size: number; widenedFrom?: string } {
+  const fits = (limit: number) => Object.entries(STATS_BUCKETS).find(([, size]) => bucketCount(size, from, to) <= limit) ?? ['day', STATS_BUCKETS.day];
+  if (bucket === 'auto') {
+    const [name, size] = fits(24);
+    return { name, size };
+  }
+  if (bucket === 'day' || bucketCount(STATS_BUCKETS[bucket], from, to) <= MAX_RATE_BUCKETS) {
+    return { name: bucket, size: STATS_BUCKETS[bucket] };
+  }
+  const [name, size] = Object.entries(STATS_BUCKETS).find(([name, size]) => size > STATS_BUCKETS[bucket] && (bucketCount(size, from, to) <= MAX_RATE_BUCKETS || name === 'day'))!;
+  return { name, size, widenedFrom: bucket };
+}
+
+// Topic statistics over a window
+registerTool(
+  'topic_stats',
+  'Statistics over a window of topic records, read oldest first through the after cursors of get_topic_data: message rate over time, key cardinality and top keys, key and value size percentiles, partition skew, header key frequency and null key and tombstone counts, optionally grouped by a JSON field path in the value',
+  {
+    cluster: z.string(),
+    topicName: z.string(),
+    ...topicDataFilterShape,
+    maxMessages: z.number().optional().describe('Maximum number of records to scan (default 1000, at most 10000)'),
+    groupBy: z.string().optional().describe('JSON field path in the value to group records by, e.g. status or $.order.country'),
+    bucket: z.enum(['auto', 'second', 'minute', 'hour', 'day']).optional().describe('Time bucket of the message rate (default auto)'),
+    top: z.number().optional().describe('Number of top keys and groups to list (default 10)')
+  },
+  async (params) => {
+    try {
+      const validatedParams = z.object({
+    cluster: z.string(),
+    topicName: z.string(),
+    ...topicDataFilterShape,
+    maxMessages: z.number().int().min(1).max(10000).optional(),
+    groupBy: z.string().optional(),
+    bucket: z.enum(['auto', 'second', 'minute', 'hour', 'day']).optional(),
+    top: z.number().int().min(1).max(100).optional()
+  }).parse(params);
+      const { cluster, topicName, maxMessages = 1000, groupBy, bucket = 'auto', top = 10, ...filters } = validatedParams;
+      const { records, truncated } = await readTopicRecords(cluster, topicName, filters, maxMessages);
+      const lines = [`# ${topicName}: ${records.length} record(s) scanned${truncated ? ` (limited to ${maxMessages}, more records match)` : ''}`];
+      if (records.length === 0) {
+        lines.push('', 'No records in the selected window.');
+        return { content: [{ type: 'text', text: lines.join('\n') }] };
+      }
+
+      const keys = new Map<string, number>();
+      const partitions = new Map<string, number>();
+      const headerKeys = new Map<string, number>();
+      const groups = new Map<string, { count: number; keys: Set<string>; bytes: number; firstSeen: number; lastSeen: number }>();
+      const keySizes: number[] = [];
+      const valueSizes: number[] = [];
+      const times: number[] = [];
+      let renderedSizes = 0;
+      let nullKeys = 0;
+      let tombstones = 0;
+      for (const record of records) {
+        const time = new Date(record.timestamp).getTime();
+        if (!Number.isNaN(time)) {
+          times.push(time);
+        }
+        if (record.key === null || record.key === undefined) {
+          nullKeys++;
+        } else {
+          increment(keys, String(record.key));
+        }
+        if (record.value === null || record.value === undefined) {
+          tombstones++;
+        }
+        const keySize = recordSize(record, 'key');
+        const valueSize = recordSize(record, 'value');
+        keySizes.push(keySize.bytes);
+        valueSizes.push(valueSize.bytes);
+        if (keySize.rendered || valueSize.rendered) {
+          renderedSizes++;
+        }
+        increment(partitions, String(record.partition));
+        new Set(recordHeaders(record).map(([key]) => key)).forEach(key => increment(headerKeys, key));
+        if (groupBy) {
+          const value = typeof record.value === 'string' ? parseJsonText(record.value) : record.value;
+          const field = isPlainObject(value) || Array.isArray(value) ? jsonPathValue(value, groupBy) : undefined;
+          const groupKey = groupLabel(field);
+          const group = groups.get(groupKey) ?? { count: 0, keys: new Set(), bytes: 0, firstSeen: time, lastSeen: time };
+          group.count++;
+          group.bytes += valueSize.bytes;
+          if (record.key !== null && record.key !== undefined) {
+            group.keys.add(String(record.key));
+          }
+          if (!Number.isNaN(time)) {
+            group.firstSeen = Number.isNaN(group.firstSeen) ? time : Math.min(group.firstSeen, time);
+            group.lastSeen = Number.isNaN(group.lastSeen) ? time : Math.max(group.lastSeen, time);
+          }
+          groups.set(groupKey, group);
+        }
+      }
+      const total = records.length;
+      times.sort((a, b) => a - b);
+
+      if (times.length) {
+        const from = times[0];
+        const to = times[times.length - 1];
+        const { name: bucketName, size: bucketSize, widenedFrom } = statsBucket(bucket, from, to);
+        const buckets = new Map<number, number>();
+        for (const time of times) {
+          const start = Math.floor(time / bucketSize) * bucketSize;
+          buckets.set(start, (buckets.get(start) ?? 0) + 1);
+        }
+        // Only the last MAX_RATE_BUCKETS rows are built, a window of years in day buckets stays a short table
+        const rowCount = bucketCount(bucketSize, from, to);
+        const rows: any[][] = [];
+        for (let start = (Math.floor(to / bucketSize) - Math.min(rowCount, MAX_RATE_BUCKETS) + 1) * bucketSize; start <= to; start += bucketSize) {
+          const count = buckets.get(start) ?? 0;
+          rows.push([new Date(start).toISOString(), count, formatRate(count, bucketSize)]);
+        }
+        lines.push(
+          '',
+          '## Message rate',
+          `From ${new Date(from).toISOString()} to ${new Date(to).toISOString()}, ${to > from ? `${formatRate(times.length, to - from)} on average` : 'all at the same time'}.`,
+          ...widenedFrom ? [`The window needs ${bucketCount(STATS_BUCKETS[widenedFrom], from, to)} ${widenedFrom} buckets, showing ${bucketName} buckets instead.`] : [],
+          formatTable([bucketName, 'messages', 'rate'], rows),
+          ...rowCount > MAX_RATE_BUCKETS ? [`Showing the last ${MAX_RATE_BUCKETS} of ${rowCount} buckets.`] : []
+        );
+      }
+
+      lines.push(
+        '',
+        '## Keys',
+        `${keys.size} distinct key(s), ${nullKeys} record(s) with a null key (${share(nullKeys, total)}), ${tombstones} tombstone(s) (${share(tombstones, total)}).`,
+        ...keys.size ? [formatTable(['key', 'count', 'share'], topCounts(keys, top).map(([key, count]) => [truncateText(key, 100), count, share(count, total)]))] : []
+      );
+
+      const sizes = (values: number[]) => {
+        const sorted = [...values].sort((a, b) => a - b);
+        return [percentile(sorted, 0.5), percentile(sorted, 0.9), percentile(sorted, 0.99), sorted[sorted.length - 1], Math.round(sorted.reduce((sum, size) => sum + size, 0) / sorted.length)];
+      };
+      lines.push(
+        '',
+        '## Sizes (serialized bytes)',
+        formatTable(['', 'p50', 'p90', 'p99', 'max', 'mean'], [['key', ...sizes(keySizes)], ['value', ...sizes(valueSizes)]]),
+        ...renderedSizes ? [`AKHQ reported no serialized size for ${renderedSizes} record(s). Their sizes are those of the text AKHQ rendered, which for Avro, Protobuf and other binary formats is not the size stored in Kafka.`] : []
+      );
+
+      const partitionCounts = [...partitions].sort((a, b) => Number(a[0]) - Number(b[0]));
+      const mean = total / partitionCounts.length;
+      const largest = Math.max(...partitionCounts.map(([, count]) => count));
+      lines.push(
+        '',
+        '## Partitions',
+        `${partitionCounts.length} partition(s) with records, the largest holds ${(largest / mean).toFixed(2)}x the mean.`,
+        formatTable(['partition', 'messages', 'share'], partitionCounts.map(([partition, count]) => [partition, count, share(count, total)]))
+      );
+
+      lines.push(
+        '',
+        '## Headers',
+        ...headerKeys.size
+          ? [formatTable(['header', 'records', 'share'], topCounts(headerKeys, 50).map(([key, count]) => [key, count, share(count, total)]))]
+          : ['No record has headers.']
+      );
+
+      if (groupBy) {
+        lines.push(
+          '',
+          `## Grouped by ${groupBy}`,
+          `${groups.size} distinct value(s)${groups.size > top ? `, showing the top ${top}` : ''}.`,
+          formatTable(
+            ['value', 'count', 'share', 'distinct keys', 'mean value bytes', 'first seen', 'last seen'],
+            [...groups].sort((a, b) => b[1].count - a[1].count).slice(0, top).map(([value, group]) => [
+              truncateText(value, 100),
+              group.count,
+              share(group.count, total),
+              group.keys.size,
+              Math.round(group.bytes / group.count),
+              formatTimestamp(Number.isNaN(group.firstSeen) ? null : group.firstSeen),
+              formatTimestamp(Number.isNaN(group.lastSeen) ? null : group.lastSeen)
+            ])
+          )
+        );
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: redactSecrets(lines.join('\n'))
+          }
+        ]
+      };
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
+          isError: true,
           content: [
             {
               type: 'text',
@@ -0,0 +1,42 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+describe('get_audit_log', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'akhq-mcp-audit-'));
+  const auditLog = path.join(dir, 'audit.jsonl');
+  let akhq: MockAkhq;
+  let client: Client;
+
+  beforeAll(async () => {
+    fs.writeFileSync(auditLog, [
+      JSON.stringify({ timestamp: '2026-01-01T00:00:00.000Z', tool: 'post_topic' }),
+      '{"timestamp": "2026-01-02T00:00:00.000Z", "tool": "delete_',
+      JSON.stringify({ timestamp: '2026-01-03T00:00:00.000Z', tool: 'delete_topic' }),
+      ''
+    ].join('\n'));
+    akhq = await startMockAkhq();
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local', AKHQ_AUDIT_LOG: auditLog });
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('skips and reports lines that are not valid JSON', async () => {
+    const result = await callTool(client, 'get_audit_log', { since: '2026-01-02' });
+    expect(result.isError, result.text).toBe(false);
+    expect(result.json()).toEqual({ records: [{ timestamp: '2026-01-03T00:00:00.000Z', tool: 'delete_topic' }], unparseableLines: [2] });
+  });
+
+  it('rejects a since that is not a timestamp', async () => {
+    const result = await callTool(client, 'get_audit_log', { since: 'last tuesday' });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('since must be an ISO 8601 timestamp');
+  });
+});
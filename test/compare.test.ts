@@ -0,0 +1,58 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+const topicNames: Record<string, string[]> = {
+  staging: ['alerts', 'billing', 'clicks', 'deliveries'],
+  prod: ['deliveries', 'clicks', 'alerts']
+};
+
+describe('compare_clusters', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => {
+      const [, cluster, rest] = request.url.pathname.match(/^\/api\/(staging|prod)\/(.*)$/) ?? [];
+      if (!cluster) {
+        return undefined;
+      }
+      if (rest === 'topic/name') {
+        return { body: topicNames[cluster] };
+      }
+      if (/^topic\/[^/]+$/.test(rest)) {
+        return { body: { name: rest.slice('topic/'.length), partitions: [] } };
+      }
+      if (/^topic\/[^/]+\/configs$/.test(rest)) {
+        return { body: [] };
+      }
+      if (rest === 'schema') {
+        const page = Number(request.url.searchParams.get('page') ?? 1);
+        return { body: { results: [{ subject: `subject-${page}`, version: 1, schema: '"string"' }], page: cluster === 'staging' ? 60 : 1 } };
+      }
+      return undefined;
+    });
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'staging' });
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+  });
+
+  it('limits both clusters to the same topics', async () => {
+    const result = await callTool(client, 'compare_clusters', { targetCluster: 'prod', sections: ['topics'], maxTopics: 2 });
+    expect(result.isError, result.text).toBe(false);
+    expect(result.text).toContain('Only in default/staging: billing');
+    expect(result.text).toContain('No topics only in default/prod.');
+    expect(result.text).toContain('Limited to the first 2 of 4 topic names of both clusters');
+    expect(akhq.requests.some(request => request.url.pathname.endsWith('/topic/clicks'))).toBe(false);
+  });
+
+  it('reports a schema listing cut off at the page limit', async () => {
+    const result = await callTool(client, 'compare_clusters', { targetCluster: 'prod', sections: ['schemas'] });
+    expect(result.isError, result.text).toBe(false);
+    expect(result.text).toContain('Only the first 50 pages of subjects were read on default/staging');
+    expect(result.text).not.toContain('were read on default/prod');
+  });
+});
@@ -0,0 +1,152 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'akhq-mcp-confirmation-'));
+
+describe('confirmation tokens', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+  let activeMembers: any[] = [];
+  let dlqRecords: any[] = [];
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => {
+      const { pathname } = request.url;
+      if (pathname === '/api/local/topic/name') {
+        return { body: [] };
+      }
+      if (request.method === 'POST' && pathname === '/api/local/topic') {
+        return { body: { name: request.body.name } };
+      }
+      if (pathname === '/api/local/group/billing/members') {
+        return { body: activeMembers };
+      }
+      if (pathname === '/api/local/group/billing/offsets' && request.method === 'GET') {
+        return { body: [{ topic: 'payments', partition: 0, offset: 40 }] };
+      }
+      if (pathname === '/api/local/topic/payments/partitions') {
+        return { body: [{ id: 0, firstOffset: 10, lastOffset: 100 }] };
+      }
+      if (request.method === 'POST' && pathname === '/api/local/group/billing/offsets') {
+        return { body: {} };
+      }
+      if (pathname === '/api/local/schema/seats-value') {
+        return { body: { subject: 'seats-value', id: 1, version: 1, schema: JSON.stringify({ type: 'record', name: 'Seat', fields: [{ name: 'row', type: 'int' }, { name: 'holder', type: 'string' }] }) } };
+      }
+      if (pathname === '/api/local/schema/seats-key') {
+        return { status: 404, body: { message: 'Subject not found' } };
+      }
+      if (pathname === '/api/local/topic/orders.DLQ/data') {
+        return { body: { results: dlqRecords } };
+      }
+      if (request.method === 'POST' && pathname === '/api/local/topic/replayed/data') {
+        return { body: [{ partition: 0, offset: akhq.requests.length }] };
+      }
+      if (request.method === 'POST' && pathname === '/api/local/topic/seats/data') {
+        return { body: [{ partition: 0, offset: akhq.requests.length }] };
+      }
+      if (pathname === '/api/local/topic/orders' || pathname === '/api/local/topic/orders/groups') {
+        return { status: 404, body: { message: 'Topic orders not found' } };
+      }
+      return undefined;
+    });
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local' });
+  });
+
+  beforeEach(() => {
+    akhq.requests.length = 0;
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const posts = () => akhq.requests.filter(request => request.method === 'POST');
+
+  it('applies a change only with the token from its preview, once', async () => {
+    const args = { body: { name: 'orders', partition: 3, replication: 1 } };
+    const preview = (await callTool(client, 'post_topic', args)).json();
+    expect(preview.confirmationRequired).toBe(true);
+    expect(posts()).toEqual([]);
+
+    expect((await callTool(client, 'post_topic', { ...args, body: { ...args.body, partition: 6 }, confirmationToken: preview.confirmationToken })).isError).toBe(true);
+    expect(posts()).toEqual([]);
+
+    const applied = await callTool(client, 'post_topic', { ...args, confirmationToken: preview.confirmationToken });
+    expect(applied.isError, applied.text).toBe(false);
+    expect(posts().map(request => request.body)).toEqual([args.body]);
+
+    const reused = await callTool(client, 'post_topic', { ...args, confirmationToken: preview.confirmationToken });
+    expect(reused.json().error).toBe('Invalid confirmation token');
+  });
+
+  it('refuses an apply_topics token when the desired-state file changed after the preview', async () => {
+    const desiredStatePath = path.join(workDir, 'topics.yaml');
+    fs.writeFileSync(desiredStatePath, 'topics:\n  orders:\n    partitions: 3\n    replication: 1\n');
+    const preview = (await callTool(client, 'apply_topics', { desiredStatePath })).json();
+    expect(preview.preview.steps).toHaveLength(1);
+
+    fs.writeFileSync(desiredStatePath, 'topics:\n  orders:\n    partitions: 12\n    replication: 1\n');
+    const changed = await callTool(client, 'apply_topics', { desiredStatePath, confirmationToken: preview.confirmationToken });
+    expect(changed.isError).toBe(true);
+    expect(changed.json().error).toBe('Changed since the preview');
+    expect(posts()).toEqual([]);
+
+    const again = (await callTool(client, 'apply_topics', { desiredStatePath })).json();
+    const applied = await callTool(client, 'apply_topics', { desiredStatePath, confirmationToken: again.confirmationToken });
+    expect(applied.isError, applied.text).toBe(false);
+    expect(posts().map(request => request.body)).toEqual([{ name: 'orders', partition: 12, replication: 1, configs: {} }]);
+  });
+
+  it('runs a reset_group_offsets dry run without a token', async () => {
+    activeMembers = [];
+    const result = await callTool(client, 'reset_group_offsets', { groupName: 'billing', strategy: 'to-earliest', dryRun: true });
+    expect(result.isError, result.text).toBe(false);
+    expect(result.json()).toMatchObject({ applied: false, partitions: [{ topic: 'payments', partition: 0, currentOffset: 40, newOffset: 10 }] });
+    expect(result.json().confirmationToken).toBeUndefined();
+    expect(posts()).toEqual([]);
+  });
+
+  it('issues no token for a reset_group_offsets plan blocked by active members', async () => {
+    activeMembers = [{ id: 'consumer-1' }];
+    const result = await callTool(client, 'reset_group_offsets', { groupName: 'billing', strategy: 'to-earliest' });
+    expect(result.isError).toBe(true);
+    expect(result.json().confirmationToken).toBeUndefined();
+    expect(result.json().preview.blocked).toContain('1 active member(s)');
+
+    activeMembers = [];
+    const preview = (await callTool(client, 'reset_group_offsets', { groupName: 'billing', strategy: 'to-earliest' })).json();
+    const applied = await callTool(client, 'reset_group_offsets', { groupName: 'billing', strategy: 'to-earliest', confirmationToken: preview.confirmationToken });
+    expect(applied.isError, applied.text).toBe(false);
+    expect(posts().map(request => request.body)).toEqual([[{ topic: 'payments', partition: 0, offset: 10 }]]);
+  });
+
+  it('produces the previewed test data when no seed was given', async () => {
+    const args = { topicName: 'seats', count: 3 };
+    const preview = (await callTool(client, 'generate_test_data', args)).json();
+    expect(preview.preview.pinned).toBeUndefined();
+    const applied = await callTool(client, 'generate_test_data', { ...args, confirmationToken: preview.confirmationToken });
+    expect(applied.isError, applied.text).toBe(false);
+    expect(applied.json().seed).toBe(preview.preview.seed);
+    const produced = posts().map(request => ({ key: request.body.key, value: JSON.parse(request.body.value) }));
+    expect(produced).toEqual(preview.preview.samples);
+  });
+
+  it('replays only the records of its preview', async () => {
+    dlqRecords = [{ partition: 0, offset: 5, key: 'a', value: 'first', headers: [] }];
+    const args = { topicName: 'orders.DLQ', targetTopic: 'replayed' };
+    const preview = (await callTool(client, 'replay_messages', args)).json();
+    expect(preview.preview.source).toMatchObject({ matched: 1, throughOffsets: { 0: 5 } });
+
+    dlqRecords = [...dlqRecords, { partition: 0, offset: 6, key: 'b', value: 'late', headers: [] }, { partition: 1, offset: 0, key: 'c', value: 'late', headers: [] }];
+    const applied = await callTool(client, 'replay_messages', { ...args, confirmationToken: preview.confirmationToken });
+    expect(applied.isError, applied.text).toBe(false);
+    expect(posts().map(request => request.body.key)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,58 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+const springHeaders = (partition: string, offset: string) => [
+  { key: 'kafka_dlt-exception-fqcn', value: 'org.example.ParseException' },
+  { key: 'kafka_dlt-exception-message', value: 'Unexpected token' },
+  { key: 'kafka_dlt-original-topic', value: 'orders' },
+  { key: 'kafka_dlt-original-partition', value: partition },
+  { key: 'kafka_dlt-original-offset', value: offset }
+];
+
+const records = [
+  { partition: 0, offset: 0, timestamp: '2026-01-01T00:00:00Z', key: 'a', value: '{}', headers: springHeaders('\u0000\u0000\u0000\u0003', '\u0000\u0000\u0000\u0000\u0000\u0000\u0000*') },
+  { partition: 0, offset: 1, timestamp: '2026-01-01T00:00:01Z', key: 'b', value: '{}', headers: springHeaders('\u0000\u0000\u0000\u0003', '\u0000\u0000\u0000\u0000\u0000\u0000\u0000\ufffd') },
+  {
+    partition: 0,
+    offset: 2,
+    timestamp: '2026-01-01T00:00:02Z',
+    key: 'c',
+    value: '{}',
+    headers: [
+      { key: '__connect.errors.exception.class.name', value: 'org.apache.kafka.connect.errors.DataException' },
+      { key: '__connect.errors.exception.message', value: 'Converting failed' },
+      { key: '__connect.errors.topic', value: 'payments' },
+      { key: '__connect.errors.partition', value: 'abcd' },
+      { key: '__connect.errors.offset', value: '17' }
+    ]
+  }
+];
+
+describe('triage_dlq', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => request.url.pathname === '/api/local/topic/orders.DLQ/data' ? { body: { results: records } } : undefined);
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local' });
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+  });
+
+  it('decodes binary Spring Kafka numbers and reports the ones it cannot decode', async () => {
+    const result = await callTool(client, 'triage_dlq', { topicName: 'orders.DLQ' });
+    expect(result.isError, result.text).toBe(false);
+    expect(result.text).toContain('| orders | 3 | 42 | 2 |');
+    expect(result.text).toContain('Not decodable as numbers: kafka_dlt-original-offset in 1 record(s)');
+  });
+
+  it('reads Kafka Connect numbers as text only', async () => {
+    const result = await callTool(client, 'triage_dlq', { topicName: 'orders.DLQ' });
+    expect(result.text).toContain('| payments | - | 17 | 1 |');
+    expect(result.text).toContain('Not decodable as numbers: __connect.errors.partition in 1 record(s)');
+  });
+});
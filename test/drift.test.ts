@@ -0,0 +1,68 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+describe('check_topic_drift', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+  let defaultsStatus = 404;
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => {
+      switch (request.url.pathname) {
+        case '/api/local/topic/name':
+          return { body: ['orders', 'payments'] };
+        case '/api/local/topic/orders':
+        case '/api/local/topic/payments':
+          return { body: { partitions: [{ id: 0, leader: 1, replicas: [{ id: 1 }] }] } };
+        case '/api/topic/defaults-configs':
+          return { status: defaultsStatus, body: { message: `Status ${defaultsStatus}` } };
+        case '/api/local/topic/orders/configs':
+        case '/api/local/topic/payments/configs':
+          return { body: [] };
+      }
+      return undefined;
+    });
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local' });
+  });
+
+  beforeEach(() => {
+    akhq.requests.length = 0;
+    defaultsStatus = 404;
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+  });
+
+  it('lists the live topics once', async () => {
+    const result = await callTool(client, 'check_topic_drift', { desiredState: 'topics:\n  orders:\n    partitions: 3\n' });
+    expect(result.isError, result.text).toBe(false);
+    expect(result.text).toContain('Extra topics: payments');
+    expect(result.text).toContain('| orders | partitions | partitions | 3 | 1 |');
+    expect(akhq.requests.filter(request => request.url.pathname === '/api/local/topic/name')).toHaveLength(1);
+  });
+
+  it('reports a desired-state file that cannot be read', async () => {
+    const result = await callTool(client, 'check_topic_drift', { desiredStatePath: '/nonexistent/topics.yaml' });
+    expect(result.isError).toBe(true);
+    expect(result.json()).toMatchObject({ error: 'Validation error', details: [{ path: ['desiredStatePath'], message: expect.stringContaining('Cannot read /nonexistent/topics.yaml') }] });
+  });
+
+  it('reports a desired state that is not valid YAML', async () => {
+    const result = await callTool(client, 'check_topic_drift', { desiredState: 'topics: [orders' });
+    expect(result.isError).toBe(true);
+    expect(result.json()).toMatchObject({ error: 'Validation error', details: [{ path: ['desiredState'], message: expect.stringContaining('Not a valid YAML or JSON document') }] });
+  });
+
+  it.each([
+    ['check_topic_drift', { desiredState: 'topics:\n  orders: {}\n' }],
+    ['plan_topics', { desiredState: 'topics:\n  refunds: {}\n' }]
+  ])('%s fails when the topic defaults cannot be read', async (tool, args) => {
+    defaultsStatus = 403;
+    const result = await callTool(client, tool, args);
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('/api/topic/defaults-configs');
+  });
+});
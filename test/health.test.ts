@@ -0,0 +1,45 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+describe('cluster_health_report', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+  let nodePartitionsStatus = 404;
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => {
+      switch (request.url.pathname) {
+        case '/api/local/node':
+          return { body: { controller: { id: 1 }, nodes: [{ id: 1, host: 'broker-1' }] } };
+        case '/api/local/topic':
+          return { body: { results: [], page: 1 } };
+        case '/api/local/node/1/logs':
+          return { body: [] };
+        case '/api/local/node/partitions':
+          return { status: nodePartitionsStatus, body: { message: `Status ${nodePartitionsStatus}` } };
+      }
+      return undefined;
+    });
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local' });
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+  });
+
+  it('reports without per-broker partition counts on an AKHQ that lacks them', async () => {
+    nodePartitionsStatus = 404;
+    const result = await callTool(client, 'cluster_health_report', {});
+    expect(result.isError, result.text).toBe(false);
+    expect(result.text).toContain('Cluster local: HEALTHY');
+  });
+
+  it.each([403, 500])('fails when the per-broker partition counts answer %i', async status => {
+    nodePartitionsStatus = status;
+    const result = await callTool(client, 'cluster_health_report', {});
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('/node/partitions');
+  });
+});
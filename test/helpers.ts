@@ -0,0 +1,87 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+const serverPath = fileURLToPath(new URL('../dist/main.js', import.meta.url));
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  url: URL;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export interface MockResponse {
+  status?: number;
+  body?: any;
+  contentType?: string;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse | undefined | Promise<MockResponse | undefined>;
+
+export interface MockAkhq {
+  url: string;
+  requests: MockRequest[];
+  close: () => Promise<void>;
+}
+
+// Local stand-in for AKHQ that records every request and answers from the handler, 404 when it has no answer
+export async function startMockAkhq(handler: MockHandler = () => undefined): Promise<MockAkhq> {
+  const requests: MockRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let text = '';
+    req.on('data', chunk => text += chunk);
+    req.on('end', async () => {
+      let body: any = text || undefined;
+      try {
+        body = text ? JSON.parse(text) : undefined;
+      } catch {
+        // Form posts and other bodies are kept as text
+      }
+      const url = new URL(req.url!, 'http://akhq');
+      const request = { method: req.method!, path: req.url!, url, headers: req.headers, body };
+      requests.push(request);
+      const response = await handler(request) ?? { status: 404, body: { message: `No mock for ${req.method} ${url.pathname}` } };
+      const contentType = response.contentType ?? 'application/json';
+      res.writeHead(response.status ?? 200, { 'Content-Type': contentType });
+      res.end(typeof response.body === 'string' && contentType !== 'application/json' ? response.body : JSON.stringify(response.body ?? null));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+// Starts the built server over stdio with the given environment, without inheriting AKHQ settings from the shell
+export async function connectServer(env: Record<string, string>, args: string[] = []): Promise<Client> {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [serverPath, ...args],
+    env: { ...getDefaultEnvironment(), ...env },
+    stderr: 'ignore'
+  });
+  const client = new Client({ name: 'akhq-mcp-server-test', version: '1.0.0' });
+  await client.connect(transport);
+  return client;
+}
+
+export interface ToolResult {
+  isError: boolean;
+  text: string;
+  json: () => any;
+}
+
+export async function callTool(client: Client, name: string, args: Record<string, any> = {}): Promise<ToolResult> {
+  const result: any = await client.callTool({ name, arguments: args });
+  const text = result.content?.[0]?.text ?? '';
+  return { isError: !!result.isError, text, json: () => JSON.parse(text) };
+}
@@ -0,0 +1,47 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+describe('AKHQ_URL together with AKHQ_CONFIG instances', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'akhq-mcp-instances-'));
+  let local: MockAkhq;
+  let staging: MockAkhq;
+  let client: Client;
+
+  beforeAll(async () => {
+    local = await startMockAkhq(() => ({ body: [{ id: 'local' }] }));
+    staging = await startMockAkhq(() => ({ body: [{ id: 'staging' }] }));
+    const configPath = path.join(dir, 'instances.json');
+    fs.writeFileSync(configPath, JSON.stringify({ instances: { staging: { url: staging.url, defaultCluster: 'staging' } } }));
+    client = await connectServer({ AKHQ_URL: local.url, AKHQ_CLUSTER: 'local', AKHQ_CONFIG: configPath });
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await local.close();
+    await staging.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('uses the AKHQ_URL instance by default', async () => {
+    const instances = (await callTool(client, 'list_instances', {})).json();
+    expect(instances).toMatchObject([{ name: 'staging', active: false }, { name: 'default', url: local.url, active: true }]);
+    const result = await callTool(client, 'get_cluster', {});
+    expect(result.json()).toEqual([{ id: 'local' }]);
+    expect(staging.requests).toEqual([]);
+  });
+
+  it('sends calls with an instance argument to that instance', async () => {
+    const result = await callTool(client, 'get_cluster', { instance: 'staging' });
+    expect(result.json()).toEqual([{ id: 'staging' }]);
+  });
+
+  it('reports an unknown instance as a validation error', async () => {
+    const result = await callTool(client, 'get_cluster', { instance: 'prod' });
+    expect(result.isError).toBe(true);
+    expect(result.json()).toMatchObject({ error: 'Validation error', details: [{ path: ['instance'], message: expect.stringContaining('Unknown AKHQ instance: prod') }] });
+  });
+});
@@ -0,0 +1,36 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+describe('consumer lag over a long group listing', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => {
+      if (request.url.pathname === '/api/local/group') {
+        const page = Number(request.url.searchParams.get('page') ?? 1);
+        return { body: { results: [{ id: `group-${page}` }], page: 60 } };
+      }
+      if (/^\/api\/local\/group\/[^/]+\/offsets$/.test(request.url.pathname)) {
+        return { body: [] };
+      }
+      return undefined;
+    });
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local' });
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+  });
+
+  it.each([
+    ['analyze_consumer_lag', {}],
+    ['sample_consumer_lag', { samples: 1, intervalMs: 0 }]
+  ])('%s reports groups left out by the page limit', async (tool, args) => {
+    const result = await callTool(client, tool, args);
+    expect(result.isError, result.text).toBe(false);
+    expect(result.text.split('\n')[0]).toBe('Only the groups on the first 50 pages of the group listing were read, the groups after them are not included.');
+  });
+});
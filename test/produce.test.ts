@@ -0,0 +1,160 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+const subjects: Record<string, any> = {
+  'orders-key': { id: 1, version: 1, schema: JSON.stringify({ type: 'string' }) },
+  'orders-value': {
+    id: 2,
+    version: 1,
+    schema: JSON.stringify({ type: 'record', name: 'Order', fields: [{ name: 'id', type: 'long' }, { name: 'paid', type: 'boolean' }] })
+  },
+  // Field names that look like timestamps, ages or ids to a careless name match
+  'seats-value': {
+    id: 3,
+    version: 1,
+    schema: JSON.stringify({
+      type: 'record',
+      name: 'Seat',
+      fields: [
+        ...['seat', 'stat', 'heat', 'page', 'usage', 'storage', 'createdAt', 'customerId'].map(name => ({ name, type: 'int' })),
+        { name: 'lat', type: 'double' },
+        ...['format', 'paid', 'valid', 'updated', 'security'].map(name => ({ name, type: 'string' })),
+        { name: 'updatedAt', type: 'long' }
+      ]
+    })
+  },
+  'events-value': {
+    id: 4,
+    version: 1,
+    schemaType: 'JSON',
+    schema: JSON.stringify({
+      type: 'object',
+      properties: {
+        seat: { type: 'integer' },
+        percentage: { type: 'number', maximum: 100 },
+        valid: { type: 'string', maxLength: 10 },
+        created_at: { type: 'string', format: 'date-time' }
+      },
+      required: ['seat', 'percentage', 'valid', 'created_at']
+    })
+  },
+  'readings-value': {
+    id: 5,
+    version: 1,
+    schemaType: 'PROTOBUF',
+    schema: 'syntax = "proto3";\nmessage Reading {\n  int32 seat = 1;\n  int32 created_at = 2;\n  string format = 3;\n  double lat = 4;\n  int32 void = 5;\n}\n'
+  }
+};
+
+describe('produce_messages', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+  let offset = 0;
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => {
+      const subject = request.url.pathname.match(/^\/api\/local\/schema\/([^/]+)$/)?.[1];
+      if (request.method === 'GET' && subject) {
+        return subjects[subject] ? { body: { subject, ...subjects[subject] } } : { status: 404, body: { message: 'Subject not found' } };
+      }
+      if (request.method === 'POST' && request.url.pathname === '/api/local/topic/orders/data') {
+        return { body: [{ partition: 0, offset: offset++ }] };
+      }
+      if (request.url.pathname === '/api/local/topic/orders.DLQ/data') {
+        return { body: { results: [{ partition: 1, offset: 3, key: '12345', value: '{"payload":{"id":7,"paid":true}}', headers: [{ key: 'x-error', value: 'timeout' }] }] } };
+      }
+      return undefined;
+    });
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local', AKHQ_SKIP_CONFIRM_TOOLS: '*' });
+  });
+
+  beforeEach(() => {
+    akhq.requests.length = 0;
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+  });
+
+  it('produces numeric-looking string keys to a topic with a string key schema', async () => {
+    const messages = ['12345', 'true', 'null', '1.5'].map((key, id) => ({ key, value: { id, paid: false } }));
+    const result = await callTool(client, 'produce_messages', { topicName: 'orders', messages });
+    expect(result.isError, result.text).toBe(false);
+    expect(result.json().produced).toBe(4);
+    const bodies = akhq.requests.filter(request => request.method === 'POST').map(request => request.body);
+    expect(bodies.map(body => body.key)).toEqual(['12345', 'true', 'null', '1.5']);
+    expect(bodies[0]).toMatchObject({ value: '{"id":0,"paid":false}', keySchema: 'orders-key', valueSchema: 'orders-value' });
+  });
+
+  it('produces nothing when a message does not match the schema', async () => {
+    const messages = [{ key: 'a', value: { id: 1, paid: false } }, { key: 'b', value: '{"id":"two","paid":false}' }];
+    const result = await callTool(client, 'produce_messages', { topicName: 'orders', messages });
+    expect(result.isError).toBe(true);
+    expect(result.json().invalid).toEqual([{ index: 1, errors: [expect.stringContaining('value')] }]);
+    expect(akhq.requests.filter(request => request.method === 'POST')).toEqual([]);
+  });
+
+  it('replays numeric-looking string keys as strings', async () => {
+    const result = await callTool(client, 'replay_messages', {
+      topicName: 'orders.DLQ',
+      targetTopic: 'orders',
+      partition: 1,
+      mapping: { key: '$.key', value: '$.value.payload', headers: { 'x-error': null } }
+    });
+    expect(result.isError, result.text).toBe(false);
+    expect(akhq.requests[0].path).toBe('/api/local/topic/orders.DLQ/data?partition=1&sort=OLDEST');
+    const bodies = akhq.requests.filter(request => request.method === 'POST').map(request => request.body);
+    expect(bodies).toHaveLength(1);
+    expect(bodies[0]).toMatchObject({ key: '12345', value: '{"id":7,"paid":true}' });
+  });
+});
+
+describe('generate_test_data', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => {
+      const subject = request.url.pathname.match(/^\/api\/local\/schema\/([^/]+)$/)?.[1];
+      if (request.method === 'GET' && subject) {
+        return subjects[subject] ? { body: { subject, ...subjects[subject] } } : { status: 404, body: { message: 'Subject not found' } };
+      }
+      return undefined;
+    });
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local', AKHQ_SKIP_CONFIRM_TOOLS: '*' });
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+  });
+
+  it.each(['seats', 'events', 'readings'])('generates %s records that validate against their own schema', async topicName => {
+    const result = await callTool(client, 'generate_test_data', { topicName, count: 50, seed: 7, dryRun: true });
+    expect(result.isError, result.text).toBe(false);
+    const { invalid, records } = result.json();
+    expect(invalid).toEqual([]);
+    expect(records).toHaveLength(50);
+  });
+
+  it('keeps int fields in the int range', async () => {
+    const { records } = (await callTool(client, 'generate_test_data', { topicName: 'seats', count: 20, seed: 1, dryRun: true })).json();
+    for (const { value } of records) {
+      for (const name of ['seat', 'stat', 'heat', 'page', 'usage', 'storage', 'createdAt']) {
+        expect(Math.abs(value[name])).toBeLessThan(2 ** 31);
+      }
+      expect(value.seat).toBeLessThanOrEqual(10000);
+      expect(value.lat).toBeLessThanOrEqual(10000);
+      expect(value.paid).not.toMatch(/^[0-9a-f]{8}-/);
+      expect(value.updatedAt).toBeGreaterThan(1e12);
+    }
+  });
+
+  it('reproduces the same records from a seed', async () => {
+    const first = (await callTool(client, 'generate_test_data', { topicName: 'seats', count: 5, seed: 42, dryRun: true })).json();
+    const second = (await callTool(client, 'generate_test_data', { topicName: 'seats', count: 5, seed: 42, dryRun: true })).json();
+    expect(second.records).toEqual(first.records);
+  });
+});
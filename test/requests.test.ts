@@ -0,0 +1,190 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+interface RequestCase {
+  tool: string;
+  args: Record<string, any>;
+  method: string;
+  path: string;
+  body?: any;
+}
+
+const downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'akhq-mcp-requests-'));
+
+// The exact request every AKHQ API tool sends: path parameters in the path, declared query parameters in the
+// query string and the body parameter as the unwrapped JSON payload
+const cases: RequestCase[] = [
+  { tool: 'get_auths', args: {}, method: 'GET', path: '/api/auths' },
+  { tool: 'get_cluster', args: {}, method: 'GET', path: '/api/cluster' },
+  { tool: 'get_me', args: {}, method: 'GET', path: '/api/me' },
+  { tool: 'get_topic_defaults-configs', args: {}, method: 'GET', path: '/api/topic/defaults-configs' },
+  { tool: 'get_acls', args: { search: 'orders' }, method: 'GET', path: '/api/local/acls?search=orders' },
+  { tool: 'get_acls_by_principal', args: { principal: 'User:alice', resourceType: 'TOPIC' }, method: 'GET', path: '/api/local/acls/User%3Aalice?resourceType=TOPIC' },
+  { tool: 'get_connect_by_connectId', args: { connectId: 'connect-1', search: 'sink', page: 2 }, method: 'GET', path: '/api/local/connect/connect-1?search=sink&page=2' },
+  { tool: 'post_connect_by_connectId', args: { connectId: 'connect-1', body: { name: 'sink', configs: { 'tasks.max': '1' } } }, method: 'POST', path: '/api/local/connect/connect-1', body: { name: 'sink', configs: { 'tasks.max': '1' } } },
+  { tool: 'get_connect_plugins', args: { connectId: 'connect-1' }, method: 'GET', path: '/api/local/connect/connect-1/plugins' },
+  { tool: 'get_connect_plugins_by_type', args: { connectId: 'connect-1', type: 'io.example.Sink' }, method: 'GET', path: '/api/local/connect/connect-1/plugins/io.example.Sink' },
+  { tool: 'put_connect_plugins_validate', args: { connectId: 'connect-1', type: 'io.example.Sink', body: { configs: { topics: 'orders' } } }, method: 'PUT', path: '/api/local/connect/connect-1/plugins/io.example.Sink/validate', body: { configs: { topics: 'orders' } } },
+  { tool: 'get_connect_by_connectId_name', args: { connectId: 'connect-1', name: 'sink' }, method: 'GET', path: '/api/local/connect/connect-1/sink' },
+  { tool: 'delete_connect_by_connectId_name', args: { connectId: 'connect-1', name: 'sink' }, method: 'DELETE', path: '/api/local/connect/connect-1/sink' },
+  { tool: 'get_connect_configs', args: { connectId: 'connect-1', name: 'sink' }, method: 'GET', path: '/api/local/connect/connect-1/sink/configs' },
+  { tool: 'post_connect_configs', args: { connectId: 'connect-1', name: 'sink', body: { configs: { 'tasks.max': '2' } } }, method: 'POST', path: '/api/local/connect/connect-1/sink/configs', body: { configs: { 'tasks.max': '2' } } },
+  { tool: 'get_connect_pause', args: { connectId: 'connect-1', name: 'sink' }, method: 'GET', path: '/api/local/connect/connect-1/sink/pause' },
+  { tool: 'get_connect_restart', args: { connectId: 'connect-1', name: 'sink' }, method: 'GET', path: '/api/local/connect/connect-1/sink/restart' },
+  { tool: 'get_connect_resume', args: { connectId: 'connect-1', name: 'sink' }, method: 'GET', path: '/api/local/connect/connect-1/sink/resume' },
+  { tool: 'get_connect_tasks', args: { connectId: 'connect-1', name: 'sink' }, method: 'GET', path: '/api/local/connect/connect-1/sink/tasks' },
+  { tool: 'get_connect_tasks_restart', args: { connectId: 'connect-1', name: 'sink', taskId: 0 }, method: 'GET', path: '/api/local/connect/connect-1/sink/tasks/0/restart' },
+  { tool: 'get_group', args: { search: 'billing', page: 1 }, method: 'GET', path: '/api/local/group?search=billing&page=1' },
+  { tool: 'get_group_topics', args: { topics: ['orders', 'payments'] }, method: 'GET', path: '/api/local/group/topics?topics=orders&topics=payments' },
+  { tool: 'get_group_by_groupName', args: { groupName: 'billing' }, method: 'GET', path: '/api/local/group/billing' },
+  { tool: 'delete_group_by_groupName', args: { groupName: 'billing' }, method: 'DELETE', path: '/api/local/group/billing' },
+  { tool: 'get_group_acls', args: { groupName: 'billing' }, method: 'GET', path: '/api/local/group/billing/acls' },
+  { tool: 'get_group_members', args: { groupName: 'billing' }, method: 'GET', path: '/api/local/group/billing/members' },
+  { tool: 'get_group_offsets', args: { groupName: 'billing' }, method: 'GET', path: '/api/local/group/billing/offsets' },
+  { tool: 'post_group_offsets', args: { groupName: 'billing', body: [{ topic: 'orders', partition: 0, offset: 42 }] }, method: 'POST', path: '/api/local/group/billing/offsets', body: [{ topic: 'orders', partition: 0, offset: 42 }] },
+  { tool: 'get_group_offsets_start', args: { groupName: 'billing', timestamp: '2026-01-01T00:00:00Z' }, method: 'GET', path: '/api/local/group/billing/offsets/start?timestamp=2026-01-01T00%3A00%3A00Z' },
+  { tool: 'delete_group_topic_by_topicName', args: { groupName: 'billing', topicName: 'orders' }, method: 'DELETE', path: '/api/local/group/billing/topic/orders' },
+  { tool: 'put_ksqldb_execute', args: { ksqlDbId: 'ksql', body: { sql: 'SHOW STREAMS;' } }, method: 'PUT', path: '/api/local/ksqldb/ksql/execute', body: { sql: 'SHOW STREAMS;' } },
+  { tool: 'get_ksqldb_info', args: { ksqlDbId: 'ksql' }, method: 'GET', path: '/api/local/ksqldb/ksql/info' },
+  { tool: 'get_ksqldb_queries', args: { ksqlDbId: 'ksql', search: 'q' }, method: 'GET', path: '/api/local/ksqldb/ksql/queries?search=q' },
+  { tool: 'put_ksqldb_queries_pull', args: { ksqlDbId: 'ksql', body: { sql: 'SELECT * FROM t;', properties: { a: 1 } } }, method: 'PUT', path: '/api/local/ksqldb/ksql/queries/pull', body: { sql: 'SELECT * FROM t;', properties: { a: 1 } } },
+  { tool: 'get_ksqldb_streams', args: { ksqlDbId: 'ksql', page: 3 }, method: 'GET', path: '/api/local/ksqldb/ksql/streams?page=3' },
+  { tool: 'get_ksqldb_tables', args: { ksqlDbId: 'ksql' }, method: 'GET', path: '/api/local/ksqldb/ksql/tables' },
+  { tool: 'get_node', args: {}, method: 'GET', path: '/api/local/node' },
+  { tool: 'get_node_partitions', args: {}, method: 'GET', path: '/api/local/node/partitions' },
+  { tool: 'get_node_by_nodeId', args: { nodeId: 1 }, method: 'GET', path: '/api/local/node/1' },
+  { tool: 'get_node_configs', args: { nodeId: 1 }, method: 'GET', path: '/api/local/node/1/configs' },
+  { tool: 'post_node_configs', args: { nodeId: 1, body: { configs: { 'log.retention.ms': '1000' } } }, method: 'POST', path: '/api/local/node/1/configs', body: { configs: { 'log.retention.ms': '1000' } } },
+  { tool: 'get_node_logs', args: { nodeId: 1 }, method: 'GET', path: '/api/local/node/1/logs' },
+  { tool: 'get_schema', args: { search: 'orders' }, method: 'GET', path: '/api/local/schema?search=orders' },
+  { tool: 'post_schema', args: { body: { subject: 'orders-value', version: 1, schema: '{"type":"string"}' } }, method: 'POST', path: '/api/local/schema', body: { subject: 'orders-value', version: 1, schema: '{"type":"string"}' } },
+  { tool: 'get_schema_id_by_id', args: { id: 7, topic: 'orders' }, method: 'GET', path: '/api/local/schema/id/7?topic=orders' },
+  { tool: 'get_schema_topic_by_topic', args: { topic: 'orders' }, method: 'GET', path: '/api/local/schema/topic/orders' },
+  { tool: 'get_schema_by_subject', args: { subject: 'orders-value' }, method: 'GET', path: '/api/local/schema/orders-value' },
+  { tool: 'post_schema_by_subject', args: { subject: 'orders-value', body: { subject: 'orders-value', version: 2, schemaType: 'AVRO' } }, method: 'POST', path: '/api/local/schema/orders-value', body: { subject: 'orders-value', version: 2, schemaType: 'AVRO' } },
+  { tool: 'delete_schema_by_subject', args: { subject: 'orders-value' }, method: 'DELETE', path: '/api/local/schema/orders-value' },
+  { tool: 'get_schema_version', args: { subject: 'orders-value' }, method: 'GET', path: '/api/local/schema/orders-value/version' },
+  { tool: 'delete_schema_version_by_version', args: { subject: 'orders-value', version: 2 }, method: 'DELETE', path: '/api/local/schema/orders-value/version/2' },
+  { tool: 'get_schemas', args: {}, method: 'GET', path: '/api/local/schemas' },
+  { tool: 'get_tail_sse', args: { topics: ['orders'], search: 'x', maxDurationMs: 100 }, method: 'GET', path: '/api/local/tail/sse?topics=orders&search=x' },
+  { tool: 'get_topic', args: { search: 'ord', show: 'HIDE_INTERNAL', page: 1, uiPageSize: 5 }, method: 'GET', path: '/api/local/topic?search=ord&show=HIDE_INTERNAL&page=1&uiPageSize=5' },
+  { tool: 'post_topic', args: { body: { name: 'orders', partition: 3, replication: 1, configs: {} } }, method: 'POST', path: '/api/local/topic', body: { name: 'orders', partition: 3, replication: 1, configs: {} } },
+  { tool: 'get_topic_last-record', args: { topics: ['orders'] }, method: 'GET', path: '/api/local/topic/last-record?topics=orders' },
+  { tool: 'get_topic_name', args: { show: 'ALL' }, method: 'GET', path: '/api/local/topic/name?show=ALL' },
+  { tool: 'get_topic_by_topicName', args: { topicName: 'orders' }, method: 'GET', path: '/api/local/topic/orders' },
+  { tool: 'delete_topic_by_topicName', args: { topicName: 'orders' }, method: 'DELETE', path: '/api/local/topic/orders' },
+  { tool: 'get_topic_acls', args: { topicName: 'orders' }, method: 'GET', path: '/api/local/topic/orders/acls' },
+  { tool: 'get_topic_configs', args: { topicName: 'orders' }, method: 'GET', path: '/api/local/topic/orders/configs' },
+  { tool: 'post_topic_configs', args: { topicName: 'orders', body: { configs: { 'retention.ms': '1000' } } }, method: 'POST', path: '/api/local/topic/orders/configs', body: { configs: { 'retention.ms': '1000' } } },
+  { tool: 'get_topic_data', args: { topicName: 'orders', partition: 1, sort: 'NEWEST', searchByKey: 'k 1' }, method: 'GET', path: '/api/local/topic/orders/data?partition=1&sort=NEWEST&searchByKey=k%201' },
+  { tool: 'post_topic_data', args: { topicName: 'orders', body: { key: 'k', value: '{"a":1}', headers: [{ key: 'h', value: 'v' }] } }, method: 'POST', path: '/api/local/topic/orders/data', body: { key: 'k', value: '{"a":1}', headers: [{ key: 'h', value: 'v' }] } },
+  { tool: 'delete_topic_data', args: { topicName: 'orders', body: { partition: 0, key: 'k' } }, method: 'DELETE', path: '/api/local/topic/orders/data', body: { partition: 0, key: 'k' } },
+  { tool: 'get_topic_data_download', args: { topicName: 'orders', partition: 0, outputPath: path.join(downloadDir, 'orders.json') }, method: 'GET', path: '/api/local/topic/orders/data/download?partition=0' },
+  { tool: 'delete_topic_data_empty', args: { topicName: 'orders' }, method: 'DELETE', path: '/api/local/topic/orders/data/empty' },
+  { tool: 'get_topic_data_record_by_partition_offset', args: { topicName: 'orders', partition: 2, offset: 10 }, method: 'GET', path: '/api/local/topic/orders/data/record/2/10' },
+  { tool: 'get_topic_data_search', args: { topicName: 'orders', searchByValue: 'paid', maxDurationMs: 100 }, method: 'GET', path: '/api/local/topic/orders/data/search?searchByValue=paid' },
+  { tool: 'get_topic_groups', args: { topicName: 'orders' }, method: 'GET', path: '/api/local/topic/orders/groups' },
+  { tool: 'get_topic_logs', args: { topicName: 'orders' }, method: 'GET', path: '/api/local/topic/orders/logs' },
+  { tool: 'get_topic_offsets_start', args: { topicName: 'orders', timestamp: '2026-01-01T00:00:00Z' }, method: 'GET', path: '/api/local/topic/orders/offsets/start?timestamp=2026-01-01T00%3A00%3A00Z' },
+  { tool: 'get_topic_partitions', args: { topicName: 'orders' }, method: 'GET', path: '/api/local/topic/orders/partitions' },
+  { tool: 'post_topic_partitions', args: { topicName: 'orders', body: { partition: 6 } }, method: 'POST', path: '/api/local/topic/orders/partitions', body: { partition: 6 } },
+  { tool: 'get_ui-options', args: {}, method: 'GET', path: '/api/local/ui-options' },
+  { tool: 'post_topic_copy_topic_by_toTopicName', args: { fromCluster: 'local', fromTopicName: 'orders', toCluster: 'backup', toTopicName: 'orders-copy', body: [{ partition: 0, offset: 5 }] }, method: 'POST', path: '/api/local/topic/orders/copy/backup/topic/orders-copy', body: [{ partition: 0, offset: 5 }] }
+];
+
+describe('AKHQ API tools', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => {
+      if (request.url.pathname.endsWith('/tail/sse') || request.url.pathname.endsWith('/data/search')) {
+        return { contentType: 'text/event-stream', body: '' };
+      }
+      if (request.url.pathname.endsWith('/data/download')) {
+        return { contentType: 'application/octet-stream', body: 'exported' };
+      }
+      return { body: {} };
+    });
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local', AKHQ_SKIP_CONFIRM_TOOLS: '*' });
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+    fs.rmSync(downloadDir, { recursive: true, force: true });
+  });
+
+  it.each(cases)('$tool sends $method $path', async ({ tool, args, method, path, body }) => {
+    akhq.requests.length = 0;
+    const result = await callTool(client, tool, args);
+    expect(result.isError, result.text).toBe(false);
+    expect(akhq.requests).toHaveLength(1);
+    const [request] = akhq.requests;
+    expect(request.method).toBe(method);
+    expect(request.path).toBe(path);
+    expect(request.body).toEqual(body);
+    if (body !== undefined) {
+      expect(request.headers['content-type']).toBe('application/json');
+    }
+  });
+
+  it('covers every AKHQ API tool', async () => {
+    const { tools } = await client.listTools();
+    const composite = [
+      'get_servers', 'list_instances', 'use_instance', 'get_audit_log', 'analyze_consumer_lag', 'sample_consumer_lag',
+      'reset_group_offsets', 'cluster_health_report', 'check_topic_drift', 'plan_topics', 'apply_topics', 'compare_clusters',
+      'check_schema_compatibility', 'get_schema_history', 'produce_messages', 'generate_test_data', 'replay_messages',
+      'triage_dlq', 'topic_stats'
+    ];
+    const untested = tools.map(tool => tool.name).filter(name => !composite.includes(name) && !cases.some(entry => entry.tool === name));
+    expect(untested).toEqual([]);
+  });
+
+  it('replaces an existing export only with overwrite', async () => {
+    const outputPath = path.join(downloadDir, 'existing.json');
+    fs.writeFileSync(outputPath, 'kept');
+    akhq.requests.length = 0;
+    const refused = await callTool(client, 'get_topic_data_download', { topicName: 'orders', outputPath });
+    expect(refused.isError).toBe(true);
+    expect(refused.text).toContain('already exists');
+    expect(akhq.requests).toHaveLength(0);
+    expect(fs.readFileSync(outputPath, 'utf8')).toBe('kept');
+
+    const replaced = await callTool(client, 'get_topic_data_download', { topicName: 'orders', outputPath, overwrite: true });
+    expect(replaced.isError, replaced.text).toBe(false);
+    expect(fs.readFileSync(outputPath, 'utf8')).toBe('exported');
+    expect(fs.readdirSync(downloadDir).filter(name => name.endsWith('.part'))).toEqual([]);
+  });
+
+  it('answers get_servers like list_instances', async () => {
+    const servers = await callTool(client, 'get_servers', {});
+    expect(servers.json()).toEqual((await callTool(client, 'list_instances', {})).json());
+    expect(servers.json()).toMatchObject([{ name: 'default', url: akhq.url, defaultCluster: 'local' }]);
+  });
+
+  it('follows the pages of a listing with allPages', async () => {
+    akhq.requests.length = 0;
+    await callTool(client, 'get_topic', { allPages: true, maxPages: 2 });
+    expect(akhq.requests.map(request => request.path)).toEqual(['/api/local/topic?page=1']);
+  });
+});
+
+describe('unreachable AKHQ', () => {
+  it('reports the network error behind the failed request', async () => {
+    const akhq = await startMockAkhq();
+    await akhq.close();
+    const client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local' });
+    try {
+      const result = await callTool(client, 'get_cluster', {});
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain(`Could not reach ${akhq.url}: connect ECONNREFUSED`);
+    } finally {
+      await client.close();
+    }
+  });
+});
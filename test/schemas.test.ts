@@ -0,0 +1,76 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+const orderV1 = {
+  type: 'record',
+  name: 'Order',
+  namespace: 'shop',
+  fields: [
+    { name: 'id', type: 'long' },
+    { name: 'customer', type: { type: 'record', name: 'Customer', namespace: 'shop.crm', fields: [{ name: 'name', type: 'string' }] } },
+    { name: 'billedTo', type: 'shop.crm.Customer' }
+  ]
+};
+
+const eventV1 = {
+  type: 'object',
+  properties: {
+    code: { type: 'string' },
+    label: { type: 'string' }
+  }
+};
+
+const subjects: Record<string, any[]> = {
+  'orders-value': [{ id: 1, version: 1, schema: JSON.stringify(orderV1) }],
+  'events-value': [{ id: 2, version: 1, schemaType: 'JSON', schema: JSON.stringify(eventV1) }]
+};
+
+describe('check_schema_compatibility', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => {
+      const [, subject, versions] = request.url.pathname.match(/^\/api\/local\/schema\/([^/]+)(\/version)?$/) ?? [];
+      if (!subject || !subjects[subject]) {
+        return undefined;
+      }
+      const registered = subjects[subject];
+      return { body: versions ? registered : { ...registered[registered.length - 1], subject, compatibilityLevel: 'BACKWARD' } };
+    });
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local' });
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+  });
+
+  it('resolves named Avro types in their own namespace', async () => {
+    const candidate = { ...orderV1, fields: [...orderV1.fields, { name: 'note', type: ['null', 'string'], default: null }] };
+    const result = await callTool(client, 'check_schema_compatibility', { subject: 'orders-value', schema: JSON.stringify(candidate) });
+    expect(result.text).toContain('The candidate is compatible with version(s) 1');
+  });
+
+  it('explains an Avro field added without a default', async () => {
+    const candidate = { ...orderV1, fields: [...orderV1.fields, { name: 'total', type: 'double' }] };
+    const result = await callTool(client, 'check_schema_compatibility', { subject: 'orders-value', schema: JSON.stringify(candidate) });
+    expect(result.text).toContain('NOT compatible');
+    expect(result.text).toContain('| 1 | backward | total |');
+  });
+
+  it('reports a breaking change that also appears inside a rejected anyOf branch', async () => {
+    const restricted = { type: 'string', maxLength: 5 };
+    const candidate = {
+      type: 'object',
+      properties: {
+        code: { anyOf: [restricted, { type: 'integer' }] },
+        label: restricted
+      }
+    };
+    const result = await callTool(client, 'check_schema_compatibility', { subject: 'events-value', schema: JSON.stringify(candidate) });
+    expect(result.text).toContain('| 1 | backward | code |');
+    expect(result.text).toContain('| 1 | backward | label | maxLength is 5');
+  });
+});
@@ -0,0 +1,41 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+const records = [
+  { partition: 0, offset: 0, timestamp: '2020-01-01T00:00:00Z', key: 'a', value: '{"status":"1"}', sizeKey: 1, sizeValue: 9, headers: [] },
+  { partition: 0, offset: 1, timestamp: '2026-01-01T00:00:00Z', key: 'b', value: '{"status":1}', sizeKey: 1, sizeValue: 7, headers: [] },
+  { partition: 1, offset: 0, timestamp: '2026-01-01T00:00:01Z', key: 'c', value: '{"status":"paid"}', sizeKey: 1, sizeValue: 5, headers: [] }
+];
+
+describe('topic_stats', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => request.url.pathname === '/api/local/topic/events/data' ? { body: { results: records } } : undefined);
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local' });
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+  });
+
+  it('widens a bucket that would need too many rows', async () => {
+    const result = await callTool(client, 'topic_stats', { topicName: 'events', bucket: 'second' });
+    expect(result.isError, result.text).toBe(false);
+    expect(result.text).toMatch(/The window needs \d+ second buckets, showing day buckets instead/);
+    expect(result.text).toMatch(/Showing the last 100 of \d+ buckets/);
+    expect(result.text.split('\n').filter(line => /^\| \d{4}-/.test(line))).toHaveLength(100);
+  });
+
+  it('keeps numeric strings apart from numbers and reports serialized sizes', async () => {
+    const result = await callTool(client, 'topic_stats', { topicName: 'events', groupBy: 'status' });
+    expect(result.text).toContain('| "1" | 1 |');
+    expect(result.text).toContain('| 1 | 1 |');
+    expect(result.text).toContain('| paid | 1 |');
+    expect(result.text).toContain('| value | 7 | 9 | 9 | 9 | 7 |');
+    expect(result.text).not.toContain('no serialized size');
+  });
+});
@@ -0,0 +1,51 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+const events = (...blocks: string[]) => blocks.map(block => `${block}\n\n`).join('');
+
+describe('server-sent event tools', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => {
+      if (request.url.pathname === '/api/local/tail/sse') {
+        return {
+          contentType: 'text/event-stream',
+          body: events('data: {"records":[{"key":"a"}],"offsets":["orders,0,1"]}', 'data: <html>Bad gateway</html>', 'data: {"records":[{"key":"b"}],"offsets":["orders,0,2"]}')
+        };
+      }
+      if (request.url.pathname === '/api/local/topic/orders/data/search') {
+        return {
+          contentType: 'text/event-stream',
+          body: events('event: searchBody\ndata: {"records":[{"key":"a"}],"percent":50}', 'event: searchBody\ndata: not json', 'event: searchEnd\ndata: {"records":[],"percent":100,"after":"cursor"}')
+        };
+      }
+      return undefined;
+    });
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local' });
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+  });
+
+  it('keeps tailing past an event that is not JSON', async () => {
+    const result = await callTool(client, 'get_tail_sse', { topics: ['orders'], maxDurationMs: 2000 });
+    expect(result.isError, result.text).toBe(false);
+    expect(result.json()).toMatchObject({
+      records: [{ key: 'a' }, { key: 'b' }],
+      after: ['orders,0,2'],
+      stopReason: 'streamEnded',
+      skippedEvents: { count: 1, samples: ['<html>Bad gateway</html>'] }
+    });
+  });
+
+  it('keeps searching past an event that is not JSON', async () => {
+    const result = await callTool(client, 'get_topic_data_search', { topicName: 'orders', maxDurationMs: 2000 });
+    expect(result.isError, result.text).toBe(false);
+    expect(result.json()).toMatchObject({ records: [{ key: 'a' }], after: 'cursor', percent: 100, stopReason: 'searchEnd', skippedEvents: { count: 1 } });
+  });
+});
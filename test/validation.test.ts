@@ -0,0 +1,66 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockAkhq, callTool, connectServer, startMockAkhq } from './helpers.js';
+
+const schemas: Record<string, any> = {
+  1: { subject: 'orders-key', version: 1, schema: JSON.stringify({ type: 'string' }) },
+  2: {
+    subject: 'orders-value',
+    version: 3,
+    schema: JSON.stringify({ type: 'record', name: 'Order', namespace: 'shop', fields: [{ name: 'id', type: 'long' }, { name: 'status', type: { type: 'enum', name: 'Status', symbols: ['NEW', 'PAID'] } }] })
+  },
+  3: { subject: 'events-key', version: 1, schemaType: 'JSON', schema: JSON.stringify({ type: 'string' }) }
+};
+
+const record = (offset: number, key: string | null, value: string | null, keySchemaId = 1) => ({
+  topic: 'orders',
+  partition: 0,
+  offset,
+  key,
+  value,
+  keySchemaId,
+  valueSchemaId: 2
+});
+
+describe('validateSchemas', () => {
+  let akhq: MockAkhq;
+  let client: Client;
+  let records: any[] = [];
+
+  beforeAll(async () => {
+    akhq = await startMockAkhq(request => {
+      const schemaId = request.url.pathname.match(/^\/api\/local\/schema\/id\/(\d+)$/)?.[1];
+      if (schemaId && schemas[schemaId]) {
+        return { body: { id: Number(schemaId), ...schemas[schemaId] } };
+      }
+      if (request.url.pathname === '/api/local/topic/orders/data') {
+        return { body: { results: records } };
+      }
+      return undefined;
+    });
+    client = await connectServer({ AKHQ_URL: akhq.url, AKHQ_CLUSTER: 'local' });
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await akhq.close();
+  });
+
+  it('accepts string keys that look like numbers, booleans or null', async () => {
+    records = ['12345', 'true', 'null', '1.5', '"quoted"'].map((key, offset) => record(offset, key, '{"id":1,"status":"NEW"}'));
+    records.push(record(5, '007', '{"id":2,"status":"PAID"}', 3));
+    const result = await callTool(client, 'get_topic_data', { topicName: 'orders', validateSchemas: true });
+    const { results, schemaValidation } = result.json();
+    expect(schemaValidation.invalidRecords).toBe(0);
+    expect(results.map((entry: any) => entry.schemaValidation.key.valid)).toEqual([true, true, true, true, true, true]);
+  });
+
+  it('flags values that do not conform to their schema', async () => {
+    records = [record(0, 'a', '{"id":1,"status":"LOST"}'), record(1, 'b', null), record(2, 'c', 'not json')];
+    const { schemaValidation } = (await callTool(client, 'get_topic_data', { topicName: 'orders', validateSchemas: true })).json();
+    expect(schemaValidation.invalidRecords).toBe(2);
+    expect(schemaValidation.invalid.map((entry: any) => entry.offset)).toEqual([0, 2]);
+    expect(schemaValidation.invalid[1].errors[0]).toContain('not decoded JSON');
+    expect(schemaValidation.schemaIds.map((entry: any) => entry.subject)).toEqual(['orders-key', 'orders-value']);
+  });
+});
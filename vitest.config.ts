@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // Every test file starts the server and a mock AKHQ, one at a time keeps them from competing for ports and CPU
+    fileParallelism: false,
+    testTimeout: 20000,
+    hookTimeout: 20000
+  }
+});